@@ -0,0 +1,364 @@
+import * as os from 'os';
+import * as path from 'path';
+
+// A file removed by a plain rm or git rm, or moved by a plain mv or git mv
+export interface BashFileOperation {
+  type: 'delete' | 'rename';
+  filePath: string;
+  newFilePath?: string;  // Where a rename moved the file to
+}
+
+// What a Bash command did to files, as far as the command line tells
+export interface BashAnalysis {
+  operations: BashFileOperation[];  // In the order the command runs them
+  effects: string[];  // Every other effect on files, described, which cannot be reverted
+  paths: string[];  // Files those effects touch, where known
+}
+
+// A simple command of a command line, with its output redirections
+interface Segment {
+  words: string[];
+  redirects: Array<{ target: string; append: boolean }>;
+  // False when a word depends on the shell: variables, globs, substitutions, subshells
+  literal: boolean;
+  list: number;  // Which and-or list of the command line it is in, counted from 0
+  after: '&&' | '||' | null;  // || if it follows one in its list, else && if it follows one
+}
+
+// Commands that change files whenever they run
+const WRITING_COMMANDS: Record<string, string> = {
+  cp: 'copies files',
+  touch: 'creates or touches files',
+  mkdir: 'creates directories',
+  rmdir: 'removes directories',
+  ln: 'creates links',
+  chmod: 'changes file modes',
+  chown: 'changes file owners',
+  truncate: 'truncates files',
+  dd: 'writes files',
+  tee: 'writes files',
+  install: 'installs files',
+  rsync: 'copies files',
+  unzip: 'extracts files',
+  patch: 'patches files',
+  protoc: 'generates code',
+  black: 'reformats files',
+  isort: 'reformats files',
+  rustfmt: 'reformats files'
+};
+// git subcommands that rewrite the working tree
+const GIT_WRITING_SUBCOMMANDS = [
+  'checkout', 'restore', 'reset', 'stash', 'apply', 'am', 'clean', 'merge', 'rebase', 'pull', 'cherry-pick', 'revert', 'switch'
+];
+// Package managers, and their subcommands that install, remove or scaffold files
+const PACKAGE_MANAGERS = ['npm', 'yarn', 'pnpm', 'bun', 'pip', 'pip3', 'cargo', 'go', 'bundle', 'composer'];
+const PACKAGE_WRITING_SUBCOMMANDS = ['install', 'i', 'add', 'remove', 'uninstall', 'rm', 'update', 'upgrade', 'ci', 'get', 'init', 'create'];
+// Flags with which formatters, linters and generators rewrite files in place
+const IN_PLACE_FLAGS = ['--write', '--fix', '--in-place'];
+// Words that run a command and pass the rest on
+const WRAPPERS = ['sudo', 'command', 'time', 'nice', 'env', 'exec', 'npx', 'bunx'];
+
+// Find what a Bash command line does to files. Plain rm and mv of literal paths are
+// recognized exactly; everything else that may write is only described.
+export function analyzeBashCommand(command: string, cwd: string): BashAnalysis {
+  const analysis: BashAnalysis = { operations: [], effects: [], paths: [] };
+  // null once a cd can no longer be followed
+  let dir: string | null = cwd;
+  const segments = parseSegments(command);
+  const lastList = segments.length > 0 ? segments[segments.length - 1].list : 0;
+
+  for (const segment of segments) {
+    // What follows || may not have run. The Bash tool reports a failed command as an
+    // error, so what follows && in the last list ran whenever the command counts as applied.
+    const ran = segment.after === null || (segment.after === '&&' && segment.list === lastList);
+    const exact = segment.literal && ran;
+
+    for (const redirect of segment.redirects) {
+      if (redirect.target === '/dev/null') {
+        continue;
+      }
+      analysis.effects.push(`${redirect.append ? 'appends to' : 'writes'} ${redirect.target}`);
+      const target = resolvePath(redirect.target, dir);
+      if (target) {
+        analysis.paths.push(target);
+      }
+    }
+
+    let words = segment.words;
+    while (words.length > 0 && (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0]) || WRAPPERS.includes(words[0]))) {
+      words = words.slice(1);
+    }
+    const [name, ...args] = words;
+    if (!name) {
+      continue;
+    }
+
+    if (name === 'cd') {
+      dir = exact && args.length <= 1 ? resolvePath(args[0] || os.homedir(), dir) : null;
+      continue;
+    }
+
+    if (name === 'rm' || (name === 'git' && args[0] === 'rm')) {
+      analyzeRemove(name === 'git' ? args.slice(1) : args, name === 'git', exact, dir, analysis);
+    } else if (name === 'mv' || (name === 'git' && args[0] === 'mv')) {
+      analyzeMove(name === 'git' ? args.slice(1) : args, exact, dir, analysis);
+    } else if (name === 'git') {
+      const subcommand = args.find(arg => !arg.startsWith('-'));
+      if (subcommand && GIT_WRITING_SUBCOMMANDS.includes(subcommand)) {
+        analysis.effects.push(`git ${subcommand} rewrites files in the working tree`);
+      }
+    } else if (name === 'sed' || name === 'perl') {
+      if (args.some(arg => /^-[a-zA-Z]*i/.test(arg) || arg === '--in-place' || arg.startsWith('--in-place='))) {
+        analysis.effects.push(`${name} -i edits files in place`);
+      }
+    } else if (PACKAGE_MANAGERS.includes(name) && args[0] && PACKAGE_WRITING_SUBCOMMANDS.includes(args[0])) {
+      analysis.effects.push(`${name} ${args[0]} installs or changes packages`);
+    } else if (WRITING_COMMANDS[name]) {
+      analysis.effects.push(`${name} ${WRITING_COMMANDS[name]}`);
+      analysis.paths.push(...operands(args).map(arg => resolvePath(arg, dir)).filter((p): p is string => p !== null));
+    } else if (args.some(arg => IN_PLACE_FLAGS.includes(arg))) {
+      analysis.effects.push(`${name} rewrites files in place`);
+    } else if (args.includes('generate') || args.includes('codegen')) {
+      analysis.effects.push(`${name} generates code`);
+    }
+  }
+
+  // Globs and variables name no particular file
+  analysis.paths = [...new Set(analysis.paths.filter(filePath => !/[$`*?[]/.test(filePath)))];
+  return analysis;
+}
+
+// rm / git rm: only -f and -v (and -q for git) keep it a plain file delete. Not exact
+// when its words depend on the shell or it may not have run.
+function analyzeRemove(args: string[], git: boolean, exact: boolean, dir: string | null, analysis: BashAnalysis): void {
+  const flags = args.filter(arg => arg.startsWith('-') && arg !== '--');
+  const files = operands(args);
+  // git rm --cached only touches the index
+  if (git && flags.includes('--cached')) {
+    return;
+  }
+
+  const plainFlags = git ? /^(-[fq]+|--force|--quiet)$/ : /^(-[fv]+|--force|--verbose)$/;
+  const resolved = files.map(file => resolvePath(file, dir));
+  if (exact && files.length > 0 && flags.every(flag => plainFlags.test(flag)) && resolved.every(file => file !== null)) {
+    analysis.operations.push(...(resolved as string[]).map(filePath => ({ type: 'delete' as const, filePath })));
+    return;
+  }
+
+  const recursive = flags.some(flag => /^-[a-zA-Z]*[rR]/.test(flag) || flag === '--recursive');
+  analysis.effects.push(`${git ? 'git rm' : 'rm'} ${recursive ? 'removes directories' : 'removes files'}: ${files.join(' ')}`);
+  analysis.paths.push(...resolved.filter((file): file is string => file !== null));
+}
+
+// mv / git mv of one file to a new path or into a directory. Only a trailing / (or . and
+// ..) says the target is a directory: the file system at parse time need not be the one
+// the command ran against.
+function analyzeMove(args: string[], exact: boolean, dir: string | null, analysis: BashAnalysis): void {
+  const flags = args.filter(arg => arg.startsWith('-') && arg !== '--');
+  const files = operands(args);
+  const from = files.length === 2 ? resolvePath(files[0], dir) : null;
+  let to = files.length === 2 ? resolvePath(files[1], dir) : null;
+
+  if (exact && from && to && flags.every(flag => /^(-[fv]+|--force|--verbose)$/.test(flag))) {
+    if (files[1].endsWith('/') || /(^|\/)\.\.?$/.test(files[1])) {
+      to = path.join(to, path.basename(from));
+    }
+    analysis.operations.push({ type: 'rename', filePath: from, newFilePath: to });
+    return;
+  }
+
+  analysis.effects.push(`mv moves files: ${files.join(' ')}`);
+  analysis.paths.push(...files.map(file => resolvePath(file, dir)).filter((file): file is string => file !== null));
+}
+
+// Arguments that are not flags; everything after -- is an operand
+function operands(args: string[]): string[] {
+  const end = args.indexOf('--');
+  return [
+    ...(end === -1 ? args : args.slice(0, end)).filter(arg => !arg.startsWith('-')),
+    ...(end === -1 ? [] : args.slice(end + 1))
+  ];
+}
+
+function resolvePath(file: string, dir: string | null): string | null {
+  if (file === '~' || file.startsWith('~/')) {
+    return path.join(os.homedir(), file.substring(1));
+  }
+  if (path.isAbsolute(file)) {
+    return path.normalize(file);
+  }
+  return dir ? path.resolve(dir, file) : null;
+}
+
+// Split a command line into simple commands at ; && || | & and newlines, honouring
+// quotes and escapes. Heredoc bodies and comments are skipped, they are data.
+function parseSegments(command: string): Segment[] {
+  const segments: Segment[] = [];
+  const heredocs: Array<{ delimiter: string; stripTabs: boolean }> = [];
+  let list = 0;
+  let after: Segment['after'] = null;
+  let segment: Segment = { words: [], redirects: [], literal: true, list, after };
+  // Subshells nested around the current position
+  let depth = 0;
+  let word = '';
+  let inWord = false;
+  // What the next word is: a command word, an output target, an input file or a heredoc delimiter
+  let next: 'word' | 'output' | 'append' | 'input' | 'heredoc' | 'heredoc-tabs' = 'word';
+
+  const endWord = () => {
+    if (!inWord) {
+      return;
+    }
+    if (next === 'output' || next === 'append') {
+      segment.redirects.push({ target: word, append: next === 'append' });
+    } else if (next === 'heredoc' || next === 'heredoc-tabs') {
+      heredocs.push({ delimiter: word, stripTabs: next === 'heredoc-tabs' });
+    } else if (next === 'word') {
+      segment.words.push(word);
+    }
+    next = 'word';
+    word = '';
+    inWord = false;
+  };
+  const endSegment = () => {
+    endWord();
+    if (segment.words.length > 0 || segment.redirects.length > 0) {
+      segments.push(segment);
+    }
+    segment = { words: [], redirects: [], literal: depth === 0, list, after };
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+
+    if (c === "'" || c === '"') {
+      const close = command.indexOf(c, i + 1);
+      const quoted = command.substring(i + 1, close === -1 ? command.length : close);
+      if (c === '"' && /[$`]/.test(quoted)) {
+        segment.literal = false;
+      }
+      word += c === '"' ? quoted.replace(/\\(["\\$`])/g, '$1') : quoted;
+      inWord = true;
+      i = close === -1 ? command.length : close;
+      continue;
+    }
+
+    if (c === '\\') {
+      if (command[i + 1] !== '\n') {
+        word += command[i + 1] ?? '';
+        inWord = true;
+      }
+      i++;
+      continue;
+    }
+
+    if (c === '#' && !inWord) {
+      while (i + 1 < command.length && command[i + 1] !== '\n') {
+        i++;
+      }
+      continue;
+    }
+
+    if (c === ' ' || c === '\t') {
+      endWord();
+      continue;
+    }
+
+    if (c === '\n') {
+      // A line ending in && || or | goes on with the same list
+      if (inWord || segment.words.length > 0 || segment.redirects.length > 0) {
+        list++;
+        after = null;
+      }
+      endSegment();
+      // Heredoc bodies start on the next line and run to their delimiter line
+      for (const heredoc of heredocs.splice(0)) {
+        while (i < command.length) {
+          const lineEnd = command.indexOf('\n', i + 1);
+          const line = command.substring(i + 1, lineEnd === -1 ? command.length : lineEnd);
+          i = lineEnd === -1 ? command.length : lineEnd;
+          if ((heredoc.stripTabs ? line.replace(/^\t+/, '') : line) === heredoc.delimiter) {
+            break;
+          }
+        }
+      }
+      continue;
+    }
+
+    if (c === '>' || (c === '&' && command[i + 1] === '>')) {
+      // A descriptor number (2>) belongs to the redirection, not the command
+      if (inWord && /^\d+$/.test(word)) {
+        word = '';
+        inWord = false;
+      }
+      endWord();
+      if (c === '&') {
+        i++;
+      }
+      const append = command[i + 1] === '>';
+      if (append) {
+        i++;
+      }
+      if (command[i + 1] === '&') {
+        // >&2 duplicates a descriptor
+        i++;
+        while (i + 1 < command.length && /[\d-]/.test(command[i + 1])) {
+          i++;
+        }
+        continue;
+      }
+      next = append ? 'append' : 'output';
+      continue;
+    }
+
+    if (c === '<') {
+      endWord();
+      if (command[i + 1] === '<' && command[i + 2] === '<') {
+        // Here-string: the next word is data
+        i += 2;
+        next = 'input';
+      } else if (command[i + 1] === '<') {
+        i++;
+        const stripTabs = command[i + 1] === '-';
+        if (stripTabs) {
+          i++;
+        }
+        next = stripTabs ? 'heredoc-tabs' : 'heredoc';
+      } else {
+        next = 'input';
+      }
+      continue;
+    }
+
+    if (c === ';' || c === '|' || c === '&' || c === '(' || c === ')') {
+      // What runs in a subshell cannot be followed word by word
+      if (c === '(') {
+        depth++;
+      } else if (c === ')') {
+        segment.literal = false;
+        depth = Math.max(0, depth - 1);
+      }
+      const andOr = (c === '|' || c === '&') && command[i + 1] === c;
+      if (andOr) {
+        after = c === '|' || after === '||' ? '||' : '&&';
+      } else if (c === ';' || c === '&') {
+        list++;
+        after = null;
+      }
+      endSegment();
+      if (andOr) {
+        i++;
+      }
+      continue;
+    }
+
+    if ('$`*?[{'.includes(c)) {
+      segment.literal = false;
+    }
+    word += c;
+    inWord = true;
+  }
+
+  endSegment();
+  return segments;
+}
@@ -1,105 +1,428 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as diff from 'diff';
-import { FileChange, ParsedChange } from './types.js';
-import { RevertTracker } from './revert-tracker.js';
+import {
+  FileChange,
+  ParsedChange,
+  ContentSource,
+  RevertPlan,
+  RevertResult,
+  RevertScope,
+  RevertPreview,
+  RevertFilePreview,
+  BatchRevertResult,
+  RevertOperation,
+  RevertOperationSummary,
+  RestoreResult,
+  LaterChange,
+  ChangeGitState,
+  FileGitStatus,
+  RevertOptions
+} from './types.js';
+import { RevertTracker, RevertedChangeInput } from './revert-tracker.js';
+import { RevertHistory } from './revert-history.js';
+import { GitRepository } from './git.js';
+import { threeWayMerge, splitLines } from './merge.js';
+import { applyNotebookEdit, containsNotebookEdit, editedCellSources, revertNotebookEdit } from './notebook.js';
+import { debug } from './debug.js';
+
+const COMMITTED_WORK_ERROR =
+  'Some changes are already staged or committed; confirm reverting them in the working tree only';
+
+// Recovered file content around a single change
+interface ContentState {
+  before?: string;
+  after?: string;
+  source: ContentSource;
+}
+
+type Edit = { oldString: string; newString: string; replaceAll?: boolean };
+
+// A file while a multi-change revert is planned; null content means no file
+interface StagedFile {
+  original: string | null;
+  content: string | null;
+  conflict: boolean;
+}
+
+interface FileWrite {
+  filePath: string;
+  original: string | null;
+  content: string | null;
+}
+
+// A file as it is on disk, in the git index and in HEAD; null means no file
+interface GitFileContents {
+  disk: string | null;
+  index: string | null;
+  head: string | null;
+  status: FileGitStatus;
+}
+
+interface StagedRevert {
+  changes: ParsedChange[];  // In revert order
+  results: RevertResult[];
+  files: Map<string, StagedFile>;
+}
 
 export class ChangeTracker {
-  private fileSnapshots: Map<string, string[]> = new Map();
+  private projectPath: string;
   private originalChanges: Map<string, FileChange> = new Map();
   private revertTracker: RevertTracker;
+  private history: RevertHistory;
+  private git: GitRepository;
+  private gitFiles: Map<string, { key: string; file: GitFileContents | null }> = new Map();
 
-  constructor() {
-    this.revertTracker = new RevertTracker();
+  constructor(projectPath: string = process.cwd()) {
+    this.projectPath = path.resolve(projectPath);
+    this.revertTracker = new RevertTracker(projectPath);
+    this.history = new RevertHistory(projectPath);
+    this.git = new GitRepository(projectPath);
   }
 
   async init(): Promise<void> {
     await this.revertTracker.init();
+    await this.history.init();
   }
 
-  async processChanges(changes: FileChange[]): Promise<ParsedChange[]> {
+  // Changes should be passed in log order and cover a whole session, so that
+  // content can be replayed across every change that touched a file. laterChanges are
+  // changes later sessions made to the same files: they are not returned, but content
+  // is replayed across them too and reverts are checked against them.
+  async processChanges(changes: FileChange[], laterChanges: FileChange[] = []): Promise<ParsedChange[]> {
     const parsedChanges: ParsedChange[] = [];
 
-    console.log(`Processing ${changes.length} changes`);
+    debug(`Processing ${changes.length} changes`);
     for (const change of changes) {
-      console.log(`Processing change: ${change.type} ${change.filePath}`);
       // Store original change for revert purposes
       this.originalChanges.set(change.id, change);
-      
-      const parsed = await this.parseChange(change);
+    }
+
+    await this.revertTracker.claimLegacyRecords([...changes, ...laterChanges]);
+    const states = await this.reconstructContents(this.inLogOrder([...changes, ...laterChanges]));
+
+    for (const change of changes) {
+      debug(`Processing change: ${change.type} ${change.filePath}`);
+      const parsed = this.parseChange(change, states.get(change.id));
       if (parsed) {
-        console.log(`Successfully parsed change: ${parsed.id}`);
+        debug(`Successfully parsed change: ${parsed.id}`);
         parsedChanges.push(parsed);
       } else {
-        console.log(`Failed to parse change: ${change.id}`);
+        debug(`Failed to parse change: ${change.id}`);
       }
     }
 
-    console.log(`Final parsed changes: ${parsedChanges.length}`);
+    debug(`Final parsed changes: ${parsedChanges.length}`);
     
     // Filter out reverted changes
     const activeChanges = await this.revertTracker.filterRevertedChanges(parsedChanges);
-    console.log(`Active changes after filtering: ${activeChanges.length}`);
-    
+    debug(`Active changes after filtering: ${activeChanges.length}`);
+
+    await this.checkReverts(activeChanges, laterChanges);
+    await this.annotateGit(activeChanges);
+
     return activeChanges;
   }
 
-  private async parseChange(change: FileChange): Promise<ParsedChange | null> {
-    const { filePath, type } = change;
+  // Stable sort by timestamp, so changes of the same session keep their log order
+  private inLogOrder(changes: FileChange[]): FileChange[] {
+    return [...changes].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
 
-    try {
-      let oldContent = '';
-      let newContent = '';
-      let canRevert = false;
-
-      // Get current file content if it exists
-      const currentContent = await this.getFileContent(filePath);
-
-      switch (type) {
-        case 'write':
-          if (this.fileSnapshots.has(filePath)) {
-            const snapshots = this.fileSnapshots.get(filePath)!;
-            oldContent = snapshots[snapshots.length - 1];
-          } else {
-            oldContent = '';
+  // Decide per change whether it can be reverted on its own, rebased over everything
+  // written to the file since, including by later sessions. Nothing is written.
+  private async checkReverts(changes: ParsedChange[], laterChanges: FileChange[]): Promise<void> {
+    const revertedIds = new Set(await this.revertTracker.getRevertedIds());
+    const currentContents = new Map<string, string | null>();
+
+    for (const change of changes) {
+      if (!change.canRevert) {
+        continue;
+      }
+
+      const changeTime = new Date(change.timestamp).getTime();
+      change.laterChanges = laterChanges
+        .filter(later =>
+          later.status === 'applied' &&
+          path.resolve(later.filePath) === path.resolve(change.filePath) &&
+          new Date(later.timestamp).getTime() > changeTime &&
+          !this.isRevertedId(later, revertedIds)
+        )
+        .map((later): LaterChange => ({
+          changeId: later.id,
+          sessionId: later.sessionId,
+          timestamp: later.timestamp
+        }));
+
+      for (const filePath of [change.filePath, change.newFilePath]) {
+        if (filePath && !currentContents.has(filePath)) {
+          currentContents.set(filePath, await this.getFileContent(filePath));
+        }
+      }
+
+      if (change.type === 'rename') {
+        change.revertCheck = this.planRename(
+          change,
+          currentContents.get(change.filePath) ?? null,
+          currentContents.get(change.newFilePath!) ?? null
+        );
+        continue;
+      }
+
+      try {
+        const plan = await this.planRevert(change, currentContents.get(change.filePath));
+        change.revertCheck = plan.result;
+      } catch (error: any) {
+        change.revertCheck = {
+          changeId: change.id,
+          filePath: change.filePath,
+          outcome: 'conflict',
+          conflicts: [],
+          message: error.message || 'Cannot plan the revert'
+        };
+      }
+    }
+  }
+
+  // Set each applied change's git state by looking for what it wrote on disk, in the
+  // index and in HEAD. Files outside a git repository are left unannotated.
+  private async annotateGit(changes: ParsedChange[]): Promise<void> {
+    for (const change of changes) {
+      if (change.status !== 'applied') {
+        continue;
+      }
+
+      const file = await this.readGitFile(change.filePath);
+      if (file) {
+        change.fileGitStatus = file.status;
+        change.gitState = this.gitState(change, file);
+      }
+    }
+  }
+
+  // A file on disk, in the index and in HEAD. Reading them takes several git calls, so
+  // they are kept until the file, the index or HEAD changes.
+  private async readGitFile(filePath: string): Promise<GitFileContents | null> {
+    const key = await this.git.stateKey(filePath);
+    if (key === null) {
+      return null;
+    }
+    const cached = this.gitFiles.get(filePath);
+    if (cached && cached.key === key) {
+      return cached.file;
+    }
+
+    const status = await this.git.fileStatus(filePath);
+    const file = status && {
+      disk: await this.getFileContent(filePath),
+      index: status.tracked ? await this.git.readIndexFile(filePath) : null,
+      head: status.tracked ? await this.git.readHeadFile(filePath) : null,
+      status
+    };
+    this.gitFiles.set(filePath, { key, file });
+    return file;
+  }
+
+  private gitState(change: ParsedChange, file: GitFileContents): ChangeGitState {
+    if (!this.containsChange(change, file.disk)) {
+      return 'modified';
+    }
+    // A file git has never seen does not tell whether its removal was committed
+    if ((change.type === 'delete' || change.type === 'rename') && file.index === null && file.head === null) {
+      return 'uncommitted';
+    }
+    if (this.containsChange(change, file.head)) {
+      return 'committed';
+    }
+    if (this.containsChange(change, file.index)) {
+      return 'staged';
+    }
+    return 'uncommitted';
+  }
+
+  // Whether content still has what a change wrote. Content equal to the whole file right
+  // after or right before the change decides it. Otherwise, e.g. when later changes are
+  // in it too, each edit (or the whole-file diff) is looked up hunk by hunk. A deleted
+  // file, or a renamed file at its old path, must be absent.
+  private containsChange(change: ParsedChange, content: string | null): boolean {
+    if (change.type === 'delete' || change.type === 'rename') {
+      return content === null;
+    }
+    if (content === null) {
+      return false;
+    }
+
+    const { before, after } = recoveredContents(change);
+    if (before !== after) {
+      if (content === after) {
+        return true;
+      }
+      if (content === before) {
+        return false;
+      }
+    }
+
+    if (change.notebookEdit) {
+      return containsNotebookEdit(content, change.notebookEdit);
+    }
+
+    // Recovered full content can include later human edits, the edit itself cannot
+    const edits = this.findOriginalChange(change.id)?.changes || [];
+    if (change.type === 'edit' && edits.length > 0) {
+      return edits.every(edit => containsPatch(content, edit.oldString || '', edit.newString || ''));
+    }
+    return containsPatch(content, change.oldContent ?? '', change.newContent ?? '');
+  }
+
+  // Changes whose lines are already in the index or HEAD, checked against git now
+  private async stagedOrCommitted(changes: ParsedChange[]): Promise<ParsedChange[]> {
+    await this.annotateGit(changes);
+    return changes.filter(change => change.gitState === 'staged' || change.gitState === 'committed');
+  }
+
+  // Recover the full file content before and after every applied change.
+  // Sources are tried from most to least reliable: the originalFile recorded in the
+  // tool result, forward replay from an earlier known state, backward replay from
+  // the current file on disk, and finally the file as committed in git HEAD.
+  private async reconstructContents(changes: FileChange[]): Promise<Map<string, ContentState>> {
+    const states = new Map<string, ContentState>();
+    const revertedIds = new Set(await this.revertTracker.getRevertedIds());
+
+    const byFile = new Map<string, FileChange[]>();
+    for (const change of changes) {
+      // A rename moves content without changing it
+      if (change.status !== 'applied' || !change.filePath || change.type === 'rename') {
+        continue;
+      }
+      if (!byFile.has(change.filePath)) {
+        byFile.set(change.filePath, []);
+      }
+      byFile.get(change.filePath)!.push(change);
+    }
+
+    for (const [filePath, fileChanges] of byFile) {
+      const fileStates: ContentState[] = fileChanges.map(change => {
+        if (change.originalContent !== undefined) {
+          return { before: change.originalContent, source: 'tool-result' };
+        }
+        return { source: 'unknown' };
+      });
+
+      this.replayForward(fileChanges, fileStates);
+
+      // Walk backwards from disk, undoing each change that is still in effect
+      let current: string | undefined = (await this.getFileContent(filePath)) ?? undefined;
+      for (let i = fileChanges.length - 1; i >= 0 && current !== undefined; i--) {
+        if (this.isRevertedId(fileChanges[i], revertedIds)) {
+          // Already undone on disk
+          continue;
+        }
+
+        const state = fileStates[i];
+        if (state.after === undefined) {
+          state.after = current;
+        }
+        if (state.before === undefined && fileChanges[i].type === 'edit') {
+          const before = this.invertEdits(state.after, fileChanges[i].changes || []);
+          if (before !== null) {
+            state.before = before;
+            state.source = 'disk';
           }
-          newContent = change.newContent || '';
-          canRevert = true;
-          
-          // Update snapshot
-          this.updateSnapshot(filePath, newContent);
-          break;
-
-        case 'edit':
-          if (!change.changes || change.changes.length === 0) {
-            return null;
+        }
+        // Of notebook edits only inserts can be undone without the notebook before them
+        const notebookEdit = fileChanges[i].notebookEdit;
+        if (state.before === undefined && notebookEdit?.editMode === 'insert') {
+          const reverted = revertNotebookEdit(state.after, notebookEdit);
+          if ('content' in reverted) {
+            state.before = reverted.content;
+            state.source = 'disk';
           }
+        }
+        current = state.before;
+      }
 
-          // For edits, we'll create a simplified diff from the old/new strings
-          // Since we're parsing historical logs, we can't reconstruct the full context
-          const edit = change.changes[0]; // Take the first edit for simplicity
-          oldContent = edit.oldString || '';
-          newContent = edit.newString || '';
-          canRevert = true;
-          break;
-
-        case 'create':
-          oldContent = '';
-          newContent = change.newContent || '';
-          canRevert = true;
-          
-          // Update snapshot
-          this.updateSnapshot(filePath, newContent);
-          break;
-
-        case 'delete':
-          if (this.fileSnapshots.has(filePath)) {
-            const snapshots = this.fileSnapshots.get(filePath)!;
-            oldContent = snapshots[snapshots.length - 1];
-          }
-          newContent = '';
-          canRevert = true;
-          break;
+      // Last resort: assume the first change was made on top of the committed file
+      if (fileStates[0].before === undefined) {
+        const head = await this.git.readHeadFile(filePath);
+        if (head !== null) {
+          fileStates[0].before = head;
+          fileStates[0].source = 'git';
+          this.replayForward(fileChanges, fileStates);
+        }
+      }
+
+      fileChanges.forEach((change, index) => states.set(change.id, fileStates[index]));
+    }
+
+    return states;
+  }
+
+  private isRevertedId(change: FileChange, revertedIds: Set<string>): boolean {
+    return revertedIds.has(change.id) || (change.legacyIds || []).some(id => revertedIds.has(id));
+  }
+
+  // Fill in missing before/after content by applying changes in log order
+  private replayForward(fileChanges: FileChange[], fileStates: ContentState[]): void {
+    let previous: string | undefined;
+
+    fileChanges.forEach((change, index) => {
+      const state = fileStates[index];
+
+      if (state.before === undefined && previous !== undefined) {
+        state.before = previous;
+        state.source = 'replay';
+      }
+
+      if (state.after === undefined) {
+        if (change.type === 'write' || change.type === 'create') {
+          state.after = change.newContent || '';
+        } else if (change.type === 'delete') {
+          state.after = '';
+        } else if (change.notebookEdit && state.before !== undefined) {
+          state.after = applyNotebookEdit(state.before, change.notebookEdit) ?? undefined;
+        } else if (state.before !== undefined) {
+          state.after = this.applyEdits(state.before, change.changes || []) ?? undefined;
+        }
+      }
+
+      previous = state.after;
+    });
+  }
+
+  private parseChange(change: FileChange, state?: ContentState): ParsedChange | null {
+    const { filePath, type } = change;
+    // Only changes whose tool_result confirms they were written can be reverted
+    const applied = change.status === 'applied';
+
+    try {
+      if (type === 'edit' && (!change.changes || change.changes.length === 0)) {
+        return null;
+      }
+      if (type === 'notebook') {
+        return this.parseNotebookChange(change, state);
+      }
+
+      let oldContent: string;
+      let newContent: string;
+      let canRevert = applied;
+      let oldContentSource: ContentSource = state?.source || 'unknown';
+
+      if (state?.before !== undefined && state.after !== undefined) {
+        oldContent = state.before;
+        newContent = state.after;
+      } else if (type === 'edit') {
+        oldContentSource = 'unknown';
+        // Full content could not be recovered, fall back to the edited snippets
+        oldContent = change.changes!.map(edit => edit.oldString || '').join('\n');
+        newContent = change.changes!.map(edit => edit.newString || '').join('\n');
+      } else {
+        oldContent = state?.before ?? '';
+        newContent = state?.after ?? change.newContent ?? '';
+        // Restoring a write or a delete needs the real previous content, otherwise the
+        // file would be emptied
+        if ((type === 'write' || type === 'delete') && state?.before === undefined) {
+          canRevert = false;
+        }
       }
 
       // Generate diff
@@ -113,17 +436,24 @@ export class ChangeTracker {
 
       const result: ParsedChange = {
         id: change.id,
+        legacyIds: change.legacyIds,
         timestamp: change.timestamp,
         type: change.type,
         filePath: change.filePath,
+        newFilePath: change.newFilePath,
         diff: diffResult,
         oldContent,
         newContent,
+        oldContentSource,
         canRevert,
+        status: change.status,
+        statusMessage: change.statusMessage,
         sessionId: change.sessionId,
         sessionFile: change.sessionFile,
         isLatestSession: change.isLatestSession,
-        userMessage: change.userMessage
+        userMessage: change.userMessage,
+        turnId: change.turnId,
+        subagentId: change.subagentId
       };
 
       // Add oldString/newString for edit changes
@@ -139,6 +469,45 @@ export class ChangeTracker {
     }
   }
 
+  // Notebook changes show the edited cell rather than the notebook's JSON. Replaced and
+  // deleted cells can only be restored from the notebook before the change.
+  private parseNotebookChange(change: FileChange, state?: ContentState): ParsedChange | null {
+    const edit = change.notebookEdit;
+    if (!edit) {
+      return null;
+    }
+
+    const { oldSource, newSource } = editedCellSources(state?.before, edit);
+    const cell = edit.cellId ? `cell ${edit.cellId}` : 'new cell';
+    return {
+      id: change.id,
+      legacyIds: change.legacyIds,
+      timestamp: change.timestamp,
+      type: change.type,
+      filePath: change.filePath,
+      notebookEdit: edit,
+      diff: diff.createPatch(`${change.filePath} (${cell})`, oldSource ?? '', newSource, 'Previous', 'Current'),
+      oldContent: state?.before,
+      newContent: state?.after,
+      oldContentSource: state?.before !== undefined ? state.source : 'unknown',
+      canRevert: change.status === 'applied' && (edit.editMode === 'insert' || state?.before !== undefined),
+      status: change.status,
+      statusMessage: change.statusMessage,
+      sessionId: change.sessionId,
+      sessionFile: change.sessionFile,
+      isLatestSession: change.isLatestSession,
+      userMessage: change.userMessage,
+      turnId: change.turnId,
+      subagentId: change.subagentId
+    };
+  }
+
+  // Whether a path is inside the project root
+  private contains(filePath: string): boolean {
+    const relative = path.relative(this.projectPath, path.resolve(this.projectPath, filePath));
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+
   private async getFileContent(filePath: string): Promise<string | null> {
     try {
       return await fs.promises.readFile(filePath, 'utf-8');
@@ -147,22 +516,37 @@ export class ChangeTracker {
     }
   }
 
+  // Apply edits the way the Edit tool does; null if an old string is missing
+  private applyEdits(content: string, edits: Edit[]): string | null {
+    let result = content;
 
-  private updateSnapshot(filePath: string, content: string): void {
-    if (!this.fileSnapshots.has(filePath)) {
-      this.fileSnapshots.set(filePath, []);
+    for (const edit of edits) {
+      if (!result.includes(edit.oldString)) {
+        return null;
+      }
+      if (edit.replaceAll) {
+        result = result.split(edit.oldString).join(edit.newString);
+      } else {
+        // Function replacement so "$&" and friends in the new string stay literal
+        result = result.replace(edit.oldString, () => edit.newString);
+      }
     }
-    this.fileSnapshots.get(filePath)!.push(content);
+
+    return result;
   }
 
-  private applyEdits(content: string, edits: Array<{ oldString: string; newString: string; replaceAll?: boolean }>): string {
+  // Undo edits in reverse order; null if a new string can no longer be found
+  private invertEdits(content: string, edits: Edit[]): string | null {
     let result = content;
 
-    for (const edit of edits) {
+    for (const edit of [...edits].reverse()) {
+      if (!edit.newString || !result.includes(edit.newString)) {
+        return null;
+      }
       if (edit.replaceAll) {
-        result = result.split(edit.oldString).join(edit.newString);
+        result = result.split(edit.newString).join(edit.oldString);
       } else {
-        result = result.replace(edit.oldString, edit.newString);
+        result = result.replace(edit.newString, () => edit.oldString);
       }
     }
 
@@ -173,85 +557,543 @@ export class ChangeTracker {
     return this.originalChanges.get(id) || null;
   }
 
-  async revertChange(change: ParsedChange): Promise<void> {
+  // Work out the file content after reverting a change. The change's post-change
+  // content is the merge base, the file on disk is "ours" and the pre-change content
+  // is "theirs", so later edits to other parts of the file survive the revert.
+  // Pass currentContent to plan on top of an earlier (staged) revert instead of the file on disk.
+  async planRevert(change: ParsedChange, currentContent?: string | null): Promise<RevertPlan> {
+    const { filePath } = change;
+    const current = currentContent !== undefined ? currentContent : await this.getFileContent(filePath);
+    const result: RevertResult = {
+      changeId: change.id,
+      filePath,
+      outcome: 'reverted',
+      conflicts: []
+    };
+    const hasFullContent = change.oldContentSource !== undefined && change.oldContentSource !== 'unknown';
+
+    if (change.notebookEdit) {
+      // Undo the cell operation on the notebook as it is now, leaving the other cells alone
+      if (current === null) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      const reverted = revertNotebookEdit(current, change.notebookEdit, hasFullContent ? change.oldContent : undefined);
+      if ('conflict' in reverted) {
+        result.outcome = 'conflict';
+        result.message = reverted.conflict;
+        return { result, currentContent: current, content: current };
+      }
+      return { result, currentContent: current, content: reverted.content };
+    }
+
+    if (change.type === 'edit' && !hasFullContent) {
+      // Only the edited snippets are known, undo them on the current file
+      if (current === null) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+
+      const originalChange = this.findOriginalChange(change.id);
+      if (!originalChange || !originalChange.changes || originalChange.changes.length === 0) {
+        throw new Error('Cannot find original change details for reverting');
+      }
+
+      const reverted = this.invertEdits(current, originalChange.changes);
+      if (reverted === null) {
+        result.outcome = 'conflict';
+        result.message = 'The edited text is no longer present in the file';
+        result.conflicts = originalChange.changes.map(edit => ({
+          oursStart: 0,
+          base: splitLines(edit.newString || ''),
+          ours: [],
+          theirs: splitLines(edit.oldString || '')
+        }));
+        return { result, currentContent: current, content: current };
+      }
+
+      return { result, currentContent: current, content: reverted };
+    }
+
+    // null stands for "no file": a created file reverts to nothing, a deleted one comes back
+    const expected = change.type === 'delete' ? null : (change.newContent ?? '');
+    const target = change.type === 'create' ? null : (change.oldContent ?? '');
+
+    if (current === expected) {
+      return { result, currentContent: current, content: target };
+    }
+
+    if (current === null || expected === null) {
+      result.outcome = 'conflict';
+      result.message = current === null
+        ? 'The file no longer exists'
+        : 'The file has been recreated since it was deleted';
+      return { result, currentContent: current, content: current };
+    }
+
+    const merged = threeWayMerge(expected, current, target ?? '');
+    if (merged.conflicts.length > 0) {
+      result.outcome = 'conflict';
+      result.message = 'The file has been modified since this change';
+      result.conflicts = merged.conflicts;
+      return { result, currentContent: current, content: current };
+    }
+
+    if (target === null && merged.content !== '') {
+      result.outcome = 'conflict';
+      result.message = 'The file has been modified since it was created';
+      return { result, currentContent: current, content: current };
+    }
+
+    result.outcome = 'merged';
+    return { result, currentContent: current, content: target === null ? null : merged.content };
+  }
+
+  // Reverting a rename moves the file back: it must still be at its new path, and
+  // nothing may have taken its old one
+  private planRename(change: ParsedChange, sourceContent: string | null, targetContent: string | null): RevertResult {
+    const result: RevertResult = {
+      changeId: change.id,
+      filePath: change.filePath,
+      outcome: 'reverted',
+      conflicts: []
+    };
+
+    if (targetContent === null) {
+      result.outcome = 'conflict';
+      result.message = `${change.newFilePath} no longer exists`;
+    } else if (sourceContent !== null) {
+      result.outcome = 'conflict';
+      result.message = 'A file exists again at the original path';
+    }
+
+    return result;
+  }
+
+  // Revert order for several changes: newest first, so each revert sees the file
+  // as the following change left it
+  orderForRevert(changes: ParsedChange[]): ParsedChange[] {
+    return changes
+      .map((change, index) => ({ change, index }))
+      .sort((a, b) =>
+        new Date(b.change.timestamp).getTime() - new Date(a.change.timestamp).getTime() ||
+        b.index - a.index
+      )
+      .map(({ change }) => change);
+  }
+
+  // Plan reverting several changes in memory, chaining the plans per file.
+  // A file stops being planned at its first conflict.
+  async stageRevert(changes: ParsedChange[]): Promise<StagedRevert> {
+    const ordered = this.orderForRevert(changes);
+    const results: RevertResult[] = [];
+    const files = new Map<string, StagedFile>();
+
+    const stagedFile = async (filePath: string): Promise<StagedFile> => {
+      let file = files.get(filePath);
+      if (!file) {
+        const original = await this.getFileContent(filePath);
+        file = { original, content: original, conflict: false };
+        files.set(filePath, file);
+      }
+      return file;
+    };
+
+    for (const change of ordered) {
+      const file = await stagedFile(change.filePath);
+
+      // Reverting the rest would leave the file somewhere in between
+      if (!change.canRevert) {
+        if (!file.conflict) {
+          results.push({
+            changeId: change.id,
+            filePath: change.filePath,
+            outcome: 'conflict',
+            conflicts: [],
+            message: change.status === 'applied'
+              ? 'This change cannot be reverted: the file before it could not be recovered'
+              : `This change was never applied to the file (${change.status})`
+          });
+        }
+        file.conflict = true;
+        continue;
+      }
+
+      if (change.type === 'rename') {
+        const target = await stagedFile(change.newFilePath!);
+        if (file.conflict || target.conflict) {
+          continue;
+        }
+
+        const result = this.planRename(change, file.content, target.content);
+        results.push(result);
+        if (result.outcome === 'conflict') {
+          file.conflict = true;
+          target.conflict = true;
+        } else {
+          file.content = target.content;
+          target.content = null;
+        }
+        continue;
+      }
+
+      if (file.conflict) {
+        continue;
+      }
+
+      const plan = await this.planRevert(change, file.content);
+      results.push(plan.result);
+
+      if (plan.result.outcome === 'conflict') {
+        file.conflict = true;
+      } else {
+        file.content = plan.content;
+      }
+    }
+
+    return { changes: ordered, results, files };
+  }
+
+  // Dry run: what every affected file would look like after reverting the changes
+  async previewRevert(scope: RevertScope, changes: ParsedChange[]): Promise<RevertPreview> {
+    const staged = await this.stageRevert(changes);
+    const files: RevertFilePreview[] = [];
+    const committed = await this.stagedOrCommitted(changes);
+    const warnings: string[] = [];
+
+    for (const [filePath, file] of staged.files) {
+      files.push({
+        filePath,
+        diff: diff.createPatch(filePath, file.original ?? '', file.content ?? '', 'Current', 'After revert'),
+        deletesFile: file.original !== null && file.content === null,
+        conflict: file.conflict
+      });
+    }
+
+    const committedCount = committed.filter(change => change.gitState === 'committed').length;
+    if (committedCount > 0) {
+      warnings.push(`${committedCount} change(s) are already committed: the revert only changes the working tree and HEAD keeps them`);
+    }
+    if (committed.length > committedCount) {
+      warnings.push(`${committed.length - committedCount} change(s) are staged: the revert only changes the working tree and the index keeps them`);
+    }
+
+    return {
+      scope,
+      changeIds: staged.changes.map(change => change.id),
+      results: staged.results,
+      files,
+      hasConflicts: staged.results.some(result => result.outcome === 'conflict'),
+      committedChangeIds: committed.map(change => change.id),
+      warnings
+    };
+  }
+
+  // Revert several changes as one transaction. Every file is staged in memory first and
+  // nothing is written if any change conflicts. The revert records are saved last in a
+  // single write, so if a file write or that save fails, restoring the files written so
+  // far leaves both the project and reverted-changes.json as they were. Changes already
+  // staged or committed are only reverted with options.workingTreeOnly.
+  async revertBatch(scope: RevertScope, changes: ParsedChange[], options: RevertOptions = {}): Promise<BatchRevertResult> {
+    const batch: BatchRevertResult = {
+      scope,
+      success: false,
+      changeIds: [],
+      results: [],
+      filesWritten: [],
+      rolledBack: false
+    };
+
+    // An empty operation would only clutter the history
+    if (changes.length === 0) {
+      batch.error = 'Nothing to revert: these changes were never applied or are already reverted';
+      return batch;
+    }
+
+    const unrevertable = changes.filter(change => change.status !== 'applied' || !change.canRevert);
+    if (unrevertable.length > 0) {
+      batch.error = `Some changes cannot be reverted (${unrevertable.map(change => change.id).join(', ')}), nothing was reverted`;
+      return batch;
+    }
+
+    if (!options.workingTreeOnly && (await this.stagedOrCommitted(changes)).length > 0) {
+      batch.error = COMMITTED_WORK_ERROR;
+      return batch;
+    }
+
+    let staged: StagedRevert;
+    try {
+      staged = await this.stageRevert(changes);
+    } catch (error: any) {
+      batch.error = error.message || 'Failed to plan revert';
+      return batch;
+    }
+
+    batch.changeIds = staged.changes.map(change => change.id);
+    batch.results = staged.results;
+
+    if (staged.results.some(result => result.outcome === 'conflict')) {
+      batch.error = 'Some changes conflict with the current files, nothing was reverted';
+      return batch;
+    }
+
+    const writes: FileWrite[] = [...staged.files]
+      .filter(([, file]) => file.content !== file.original)
+      .map(([filePath, file]) => ({ filePath, original: file.original, content: file.content }));
+
+    try {
+      batch.filesWritten = await this.writeFiles(writes, () => this.recordRevert(scope, staged.changes, writes));
+    } catch (error: any) {
+      console.error('Batch revert failed, rolled back:', error);
+      batch.error = error.message || 'Failed to write reverted files';
+      batch.rolledBack = true;
+      return batch;
+    }
+
+    debug(`Batch reverted ${batch.changeIds.length} changes in ${batch.filesWritten.length} files`);
+    batch.success = true;
+    return batch;
+  }
+
+  async revertChange(change: ParsedChange, options: RevertOptions = {}): Promise<RevertResult> {
+    if (change.status !== 'applied') {
+      throw new Error(`This change was never applied to the file (${change.status})`);
+    }
+
     if (!change.canRevert) {
       throw new Error('This change cannot be reverted');
     }
 
-    const { filePath, oldContent, type } = change;
+    if (!options.workingTreeOnly && (await this.stagedOrCommitted([change])).length > 0) {
+      throw new Error(COMMITTED_WORK_ERROR);
+    }
 
-    switch (type) {
-      case 'create':
-        // Delete the created file
-        await fs.promises.unlink(filePath);
-        break;
+    // A rename writes two files
+    if (change.type === 'rename') {
+      const batch = await this.revertBatch({ changeId: change.id }, [change], { ...options, workingTreeOnly: true });
+      if (!batch.success && batch.results[0]?.outcome !== 'conflict') {
+        throw new Error(batch.error || 'Failed to revert the rename');
+      }
+      return batch.results[0];
+    }
 
-      case 'delete':
-        // Recreate the deleted file
-        await fs.promises.writeFile(filePath, oldContent || '');
-        break;
+    const plan = await this.planRevert(change);
+    debug(`Revert plan for ${change.id}: ${plan.result.outcome}`);
 
-      case 'edit':
-        // For edit changes, we need to apply the reverse operation
-        // Replace the new string with the old string in the current file
-        const currentContent = await this.getFileContent(filePath);
-        if (currentContent === null) {
-          throw new Error(`File not found: ${filePath}`);
-        }
-        
-        // Get the original change details to reverse the edit
-        const originalChange = this.findOriginalChange(change.id);
-        if (!originalChange || !originalChange.changes || originalChange.changes.length === 0) {
-          throw new Error('Cannot find original change details for reverting');
+    if (plan.result.outcome === 'conflict') {
+      // Leave the file alone and let the caller show the conflicts
+      return plan.result;
+    }
+
+    const writes: FileWrite[] = [{
+      filePath: change.filePath,
+      original: plan.currentContent,
+      content: plan.content
+    }];
+    await this.writeFiles(writes, () => this.recordRevert({ changeId: change.id }, [change], writes));
+    debug(`Change ${change.id} marked as reverted`);
+
+    return plan.result;
+  }
+
+  // Back up the overwritten files and mark the changes as reverted
+  private async recordRevert(scope: RevertScope, changes: ParsedChange[], writes: FileWrite[]): Promise<void> {
+    const operation = await this.history.record(
+      scope,
+      changes.map(change => ({ changeId: change.id, sessionId: change.sessionId, filePath: change.filePath })),
+      writes.map(write => ({ filePath: write.filePath, before: write.original, after: write.content }))
+    );
+
+    try {
+      await this.revertTracker.markManyAsReverted(this.revertedChangeInputs(operation));
+    } catch (error) {
+      await this.history.remove(operation.id);
+      throw error;
+    }
+  }
+
+  // What to record in reverted-changes.json for each change of an operation
+  private revertedChangeInputs(operation: RevertOperation): RevertedChangeInput[] {
+    return operation.changes.map(change => {
+      const file = operation.files.find(f => f.filePath === change.filePath);
+      return {
+        changeId: change.changeId,
+        sessionId: change.sessionId,
+        filePath: change.filePath,
+        operationId: operation.id,
+        before: file ? file.before : null,
+        after: file ? file.after : null
+      };
+    });
+  }
+
+  async getRevertHistory(): Promise<RevertOperationSummary[]> {
+    return this.history.list();
+  }
+
+  // Undo a revert: put back the files it overwrote and unmark its changes.
+  // Without an id, the most recent revert that has not been restored is used.
+  async restoreRevert(operationId?: string): Promise<RestoreResult> {
+    return this.replayOperation('restore', operationId);
+  }
+
+  // Redo a restored revert
+  async redoRevert(operationId?: string): Promise<RestoreResult> {
+    return this.replayOperation('redo', operationId);
+  }
+
+  private async replayOperation(action: RestoreResult['action'], operationId?: string): Promise<RestoreResult> {
+    const requiredState: RevertOperation['state'] = action === 'restore' ? 'reverted' : 'restored';
+    const operation = operationId
+      ? await this.history.get(operationId)
+      : await this.history.latest(requiredState);
+
+    const result: RestoreResult = {
+      operationId: operation?.id || operationId || '',
+      action,
+      success: false,
+      changeIds: operation?.changeIds || [],
+      filesWritten: [],
+      conflicts: []
+    };
+
+    if (!operation) {
+      result.error = action === 'restore' ? 'No revert to restore' : 'No restored revert to redo';
+      return result;
+    }
+
+    if (operation.state !== requiredState) {
+      result.error = action === 'restore' ? 'This revert was already restored' : 'This revert is still in effect';
+      return result;
+    }
+
+    const outside = operation.files.find(file => !this.contains(file.filePath));
+    if (outside) {
+      result.error = `${outside.filePath} is outside the project ${this.projectPath}`;
+      return result;
+    }
+
+    // Same merge as a revert: the content the operation left is the base, so edits
+    // made to the files since then are kept
+    const writes: FileWrite[] = [];
+    for (const file of operation.files) {
+      const from = action === 'restore' ? file.after : file.before;
+      const to = action === 'restore' ? file.before : file.after;
+      const current = await this.getFileContent(file.filePath);
+
+      if (current === from) {
+        writes.push({ filePath: file.filePath, original: current, content: to });
+        continue;
+      }
+
+      if (current === null || from === null || to === null) {
+        result.conflicts.push({ filePath: file.filePath, conflicts: [] });
+        continue;
+      }
+
+      const merged = threeWayMerge(from, current, to);
+      if (merged.conflicts.length > 0) {
+        result.conflicts.push({ filePath: file.filePath, conflicts: merged.conflicts });
+      } else {
+        writes.push({ filePath: file.filePath, original: current, content: merged.content });
+      }
+    }
+
+    if (result.conflicts.length > 0) {
+      result.error = 'Files have been modified since, nothing was written';
+      return result;
+    }
+
+    try {
+      result.filesWritten = await this.writeFiles(writes, async () => {
+        if (action === 'restore') {
+          await this.revertTracker.unmarkManyAsReverted(operation.changeIds);
+        } else {
+          await this.revertTracker.markManyAsReverted(this.revertedChangeInputs(operation));
         }
-        
-        let reversedContent = currentContent;
-        console.log('Reverting edit change:', {
-          filePath,
-          changeId: change.id,
-          originalChangeCount: originalChange.changes.length,
-          currentContentLength: currentContent.length
-        });
-        
-        // Apply changes in reverse order
-        for (const edit of originalChange.changes.reverse()) {
-          console.log('Applying reverse edit:', {
-            oldString: edit.oldString.substring(0, 50) + (edit.oldString.length > 50 ? '...' : ''),
-            newString: edit.newString.substring(0, 50) + (edit.newString.length > 50 ? '...' : ''),
-            replaceAll: edit.replaceAll,
-            contentContainsNewString: reversedContent.includes(edit.newString)
-          });
-          
-          if (edit.replaceAll) {
-            const beforeLength = reversedContent.length;
-            reversedContent = reversedContent.split(edit.newString).join(edit.oldString);
-            console.log('Replace all result:', { beforeLength, afterLength: reversedContent.length });
-          } else {
-            const beforeLength = reversedContent.length;
-            const newContent = reversedContent.replace(edit.newString, edit.oldString);
-            if (newContent === reversedContent) {
-              console.warn('String replacement failed - newString not found in content');
-              console.warn('Looking for:', JSON.stringify(edit.newString));
-              console.warn('In content:', JSON.stringify(reversedContent.substring(0, 200)));
-            }
-            reversedContent = newContent;
-            console.log('Replace result:', { beforeLength, afterLength: reversedContent.length });
-          }
+        operation.state = action === 'restore' ? 'restored' : 'reverted';
+        await this.history.save(operation);
+      });
+    } catch (error: any) {
+      console.error(`Failed to ${action} revert ${operation.id}:`, error);
+      result.error = error.message || `Failed to ${action} revert`;
+      return result;
+    }
+
+    debug(`${action === 'restore' ? 'Restored' : 'Redid'} revert ${operation.id}`);
+    result.success = true;
+    return result;
+  }
+
+  // Write every file, then run the follow-up step. If a write or the follow-up step
+  // fails, the files already written are put back and the error is rethrown.
+  private async writeFiles(writes: FileWrite[], afterWrite: () => Promise<void>): Promise<string[]> {
+    const written: FileWrite[] = [];
+
+    try {
+      for (const write of writes) {
+        // Track before writing so a partially written file is restored too
+        written.push(write);
+        await this.writeFileContent(write.filePath, write.content);
+      }
+      await afterWrite();
+    } catch (error) {
+      for (const write of written.reverse()) {
+        try {
+          await this.writeFileContent(write.filePath, write.original);
+        } catch (restoreError) {
+          console.error(`Failed to restore ${write.filePath}:`, restoreError);
         }
-        
-        console.log('Reversed content length:', reversedContent.length);
-        
-        await fs.promises.writeFile(filePath, reversedContent);
-        break;
-        
-      case 'write':
-        // Restore the old content
-        await fs.promises.writeFile(filePath, oldContent || '');
-        break;
-    }
-
-    // Mark the change as reverted
-    await this.revertTracker.markAsReverted(change.id);
-    console.log(`Change ${change.id} marked as reverted`);
-  }
-}
\ No newline at end of file
+      }
+      throw error;
+    }
+
+    return writes.map(write => write.filePath);
+  }
+
+  // Write content to disk, or delete the file when content is null
+  private async writeFileContent(filePath: string, content: string | null): Promise<void> {
+    if (content === null) {
+      await fs.promises.rm(filePath, { force: true });
+    } else {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, content);
+    }
+  }
+}
+
+// The whole file before and after a change, as far as it was recovered: undefined where
+// it is not known, null where there was no file. Renames carry no content.
+export function recoveredContents(change: ParsedChange): { before?: string | null; after?: string | null } {
+  if (change.type === 'rename') {
+    return {};
+  }
+  const known = change.oldContentSource !== undefined && change.oldContentSource !== 'unknown';
+  const before = change.type === 'create' ? null : known ? change.oldContent : undefined;
+
+  if (change.type === 'delete') {
+    return { before, after: null };
+  }
+  // Creates and writes record the whole file; notebook changes only have it when known
+  if (change.type === 'create' || change.type === 'write' || change.type === 'notebook') {
+    return { before, after: change.newContent };
+  }
+  return { before, after: known ? change.newContent : undefined };
+}
+
+// Whether content has what turning before into after wrote, hunk by hunk: the lines one
+// side of a hunk has, with a line of context. Where the new lines are part of the old
+// ones (e.g. lines were only removed), only the old lines being gone tells.
+function containsPatch(content: string, before: string, after: string): boolean {
+  const patch = diff.structuredPatch('', '', before, after, '', '', { context: 1 });
+  return patch.hunks.every(hunk => {
+    const side = (mark: string) => hunk.lines
+      .filter(line => line[0] === mark || line[0] === ' ')
+      .map(line => line.substring(1))
+      .join('\n');
+    const added = side('+');
+    const removed = side('-');
+    if (removed.includes(added) && !added.includes(removed)) {
+      return !content.includes(removed);
+    }
+    return content.includes(added);
+  });
+}
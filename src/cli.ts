@@ -3,7 +3,13 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import open from 'open';
+import * as path from 'path';
+import * as readline from 'readline';
 import { RevertServer } from './server.js';
+import type { ClaudeLogParser } from './parser.js';
+import { describeProjectLocation, listProjects } from './project-locator.js';
+import { oneLine } from './text.js';
+import type { BatchRevertResult, ChangeGitState, ConversationBoundary, NotebookCellEdit, ParsedChange, ProjectOptions, RevertOptions, RevertPreview, RevertResult, RevertScope, SessionWithTurns } from './types.js';
 
 const program = new Command();
 
@@ -13,9 +19,11 @@ program
   .version('0.0.1')
   .option('-p, --port <port>', 'port to run the server on', '3456')
   .option('--no-open', 'don\'t automatically open the browser')
+  .option('--project <path>', 'project directory to show (default: current directory)')
+  .option('--claude-dir <dir>', 'Claude config directory (default: $CLAUDE_CONFIG_DIR or ~/.claude)')
   .action(async (options) => {
     const port = parseInt(options.port);
-    const server = new RevertServer(port);
+    const server = new RevertServer(port, projectOptions());
 
     try {
       await server.start();
@@ -43,45 +51,824 @@ program
 
 program
   .command('list')
-  .description('List recent changes without starting the UI')
-  .action(async () => {
+  .description('List changes of a session without starting the UI')
+  .option('-s, --session <sessionId>', 'session to list (default: latest)')
+  .option('-f, --file <path>', 'only changes to this file')
+  .option('--since <time>', 'only changes after a date or a duration ago (e.g. 2h, 3d)')
+  .option('-t, --type <type>', 'only changes of this type (create, edit, write, delete, rename, notebook)')
+  .option('-n, --limit <count>', 'maximum number of changes to show', '10')
+  .option('--json', 'print machine-readable results')
+  .action(async (options) => {
+    try {
+      const { parser, loader } = await createLoader();
+      const sessionId = await resolveSessionId(parser, options.session);
+      const { session, changes } = await loader.loadSession(sessionId);
+      const prompts = turnPrompts(session);
+
+      const filtered = filterChanges(changes, options)
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, parseLimit(options.limit));
+
+      if (options.json) {
+        console.log(JSON.stringify(filtered.map(change => summarizeChange(change, prompts.get(change.turnId || ''))), null, 2));
+        return;
+      }
+
+      if (filtered.length === 0) {
+        console.log(chalk.gray('No changes found'));
+        return;
+      }
+
+      console.log(chalk.bold(`\nClaude Code changes in session ${sessionId}:\n`));
+
+      filtered.forEach((change, index) => {
+        const time = new Date(change.timestamp).toLocaleString();
+        console.log(`${index + 1}. ${formatChangeLine(change)}`);
+        console.log(`   ${chalk.gray(time)}  ${chalk.gray(change.id)}`);
+        console.log();
+      });
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('projects')
+  .description('List every project with Claude sessions, most recently active first')
+  .option('--json', 'print machine-readable results')
+  .action(async (options) => {
+    try {
+      const { projectPath, claudeDir } = projectOptions();
+      const projects = await listProjects(claudeDir);
+
+      if (options.json) {
+        console.log(JSON.stringify(projects, null, 2));
+        return;
+      }
+
+      if (projects.length === 0) {
+        console.log(chalk.gray('No projects found'));
+        return;
+      }
+
+      for (const project of projects) {
+        const marker = project.projectPath === projectPath ? '📌' : '📁';
+        const name = project.projectPath
+          ? (project.exists ? chalk.bold(project.projectPath) : `${chalk.bold(project.projectPath)} ${chalk.red('(missing)')}`)
+          : chalk.gray(`${project.dirName} (no path recorded)`);
+        const activity = project.lastActivity ? new Date(project.lastActivity).toLocaleString() : 'never';
+        console.log(`${marker} ${name}  ${chalk.gray(activity)}  ${project.sessionCount} session(s)`);
+      }
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('sessions')
+  .description('List Claude sessions of this project, newest first')
+  .option('--since <time>', 'only sessions active after a date or a duration ago (e.g. 2h, 3d)')
+  .option('-n, --limit <count>', 'maximum number of sessions to show')
+  .option('--json', 'print machine-readable results')
+  .action(async (options) => {
     const { ClaudeLogParser } = await import('./parser.js');
-    const { ChangeTracker } = await import('./change-tracker.js');
-    
     try {
-      const parser = new ClaudeLogParser();
-      const tracker = new ChangeTracker();
-      
-      const fileChanges = await parser.getFileChanges();
-      const changes = await tracker.processChanges(fileChanges);
-      
+      const parser = new ClaudeLogParser(projectOptions());
+      let sessions = await parser.getAllSessionMetadata();
+      if (options.since) {
+        const since = parseSince(options.since);
+        sessions = sessions.filter(session => session.mtime >= since);
+      }
+      if (options.limit) {
+        sessions = sessions.slice(0, parseLimit(options.limit));
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(sessions, null, 2));
+        return;
+      }
+
+      if (sessions.length === 0) {
+        const location = await parser.getProjectLocation();
+        console.log(chalk.gray(location.found ? 'No sessions found' : describeProjectLocation(location)));
+        return;
+      }
+
+      for (const session of sessions) {
+        const marker = session.isLatest ? '📌' : '📁';
+        console.log(`${marker} ${chalk.bold(session.sessionId)}  ${chalk.gray(new Date(session.mtime).toLocaleString())}  ${session.fileCount} change(s)`);
+        console.log(`   ${oneLine(session.userMessage, 100)}`);
+        if (session.sessionIds.length > 1) {
+          console.log(chalk.gray(`   continues ${session.sessionIds.slice(0, -1).join(', ')}`));
+        }
+      }
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('turns [sessionId]')
+  .description('List the conversation turns of a session (default: latest) with their changes')
+  .option('-f, --file <path>', 'only changes to this file')
+  .option('--since <time>', 'only changes after a date or a duration ago (e.g. 2h, 3d)')
+  .option('-t, --type <type>', 'only changes of this type (create, edit, write, delete, rename, notebook)')
+  .option('--json', 'print machine-readable results')
+  .action(async (sessionIdArg: string | undefined, options) => {
+    try {
+      const { parser, loader } = await createLoader();
+      const sessionId = await resolveSessionId(parser, sessionIdArg);
+      const { session } = await loader.loadSession(sessionId);
+
+      // Bash side effects are not changes: they are listed with the whole turn, unfiltered
+      const filtered = !!(options.file || options.since || options.type);
+      const turns = session.turns
+        .map(turn => ({ turn, changes: filterChanges(turn.parsedChanges || [], options) }))
+        .filter(({ turn, changes }) => changes.length > 0 || (!filtered && (turn.sideEffects?.length || 0) > 0));
+
+      if (options.json) {
+        console.log(JSON.stringify(turns.map(({ turn, changes }) => ({
+          id: turn.id,
+          timestamp: turn.timestamp,
+          userMessage: turn.userMessage,
+          assistantMessage: turn.assistantMessage,
+          subagents: turn.subagents || [],
+          sideEffects: turn.sideEffects || [],
+          changes: changes.map(change => summarizeChange(change, turn.userMessage))
+        })), null, 2));
+        return;
+      }
+
+      const abandonedChanges = session.abandonedBranches
+        .flatMap(branch => branch.turns.flatMap(turn => filterChanges(turn.parsedChanges || [], options)));
+
+      if (turns.length === 0 && abandonedChanges.length === 0) {
+        console.log(chalk.gray('No turns with matching changes'));
+        return;
+      }
+
+      // Compactions and resumes go before the first turn after them, or at the end
+      const printBoundaries = (turnId: string | null) => session.boundaries
+        .filter(boundary => boundary.beforeTurnId === turnId)
+        .forEach(boundary => console.log(chalk.gray(`── ${formatBoundary(boundary)} ──`) + '\n'));
+
+      for (const { turn, changes } of turns) {
+        printBoundaries(turn.id);
+        console.log(`${chalk.bold(turn.id)}  ${chalk.gray(new Date(turn.timestamp).toLocaleString())}`);
+        console.log(`  ${chalk.blue('👤')} ${oneLine(turn.userMessage, 200)}`);
+        for (const change of changes.filter(change => !change.subagentId)) {
+          console.log(`    ${formatChangeLine(change)}  ${chalk.gray(change.id)}`);
+        }
+        // Changes made by Task subagents, under the prompt they were given
+        for (const subagent of turn.subagents || []) {
+          const subagentChanges = changes.filter(change => change.subagentId === subagent.id);
+          if (subagentChanges.length === 0) {
+            continue;
+          }
+          console.log(`    ${chalk.magenta('🤖')} ${oneLine(subagent.description || subagent.prompt, 120)}`);
+          for (const change of subagentChanges) {
+            console.log(`      ${formatChangeLine(change)}  ${chalk.gray(change.id)}`);
+          }
+        }
+        // Bash commands whose effects on files are not tracked and cannot be reverted
+        for (const sideEffect of turn.sideEffects || []) {
+          const status = sideEffect.status === 'applied' ? '' : chalk.gray(` [${sideEffect.status}]`);
+          console.log(`    ${chalk.red('⚠ untracked')} ${chalk.cyan('$ ' + oneLine(sideEffect.command, 150))}${status}  ${chalk.gray(sideEffect.id)}`);
+          console.log(chalk.gray(`        ${sideEffect.effects.join('; ')}`));
+        }
+        console.log();
+      }
+      printBoundaries(null);
+
+      // Rewound or edited-away branches, briefly: their changes are not in effect
+      for (const branch of session.abandonedBranches) {
+        const changes = branch.turns.flatMap(turn => filterChanges(turn.parsedChanges || [], options));
+        if (changes.length === 0) {
+          continue;
+        }
+        const fork = branch.forkTurnId ? `forked from ${branch.forkTurnId}` : 'forked from the start';
+        console.log(chalk.gray(`↩ Abandoned branch (${fork}): ${oneLine(branch.turns[0].userMessage, 100)}`));
+        for (const change of changes) {
+          console.log(chalk.gray(`    ${formatChangeLine(change)}  ${change.id}`));
+        }
+        console.log();
+      }
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('show <changeId>')
+  .description('Show a change with its unified diff')
+  .option('--json', 'print machine-readable results')
+  .action(async (changeId: string, options) => {
+    try {
+      const { parser, loader } = await createLoader();
+      const sessionId = await parser.findSessionForChange(changeId);
+      if (!sessionId) {
+        throw new Error(`Change not found: ${changeId}`);
+      }
+
+      const { session, changes } = await loader.loadSession(sessionId);
+      const change = changes.find(c => c.id === changeId);
+      if (!change) {
+        throw new Error(`Change ${changeId} has been reverted`);
+      }
+      const userMessage = turnPrompts(session).get(change.turnId || '');
+
+      if (options.json) {
+        console.log(JSON.stringify({ ...change, userMessage }, null, 2));
+        return;
+      }
+
+      console.log(formatChangeLine(change));
+      console.log(chalk.gray(`${change.id}  ${change.turnId || sessionId}  ${new Date(change.timestamp).toLocaleString()}`));
+      if (userMessage) {
+        console.log(`${chalk.blue('👤')} ${oneLine(userMessage, 200)}`);
+      }
+      if (change.statusMessage) {
+        console.log(chalk.gray(change.statusMessage));
+      }
+      console.log();
+      if (change.diff) {
+        printDiff(change.diff);
+      }
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('file-history <file>')
+  .description('List every change to a file across all sessions, oldest first')
+  .option('--from <changeId>', 'print the diff from before this change (default: the first one)')
+  .option('--to <changeId>', 'print the diff up to after this change (default: the last one)')
+  .option('--json', 'print machine-readable results')
+  .action(async (file: string, options) => {
+    const { FileHistory } = await import('./file-history.js');
+    try {
+      const { parser, loader } = await createLoader();
+      const fileHistory = new FileHistory(parser, loader, projectOptions().projectPath);
+      const history = await fileHistory.getHistory(file);
+      if (history.entries.length === 0) {
+        throw new Error(`No session changed ${history.filePath}`);
+      }
+
+      if (options.from || options.to) {
+        const result = fileHistory.diffBetween(
+          history,
+          options.from || history.entries[0].change.id,
+          options.to || history.entries[history.entries.length - 1].change.id
+        );
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          console.log(chalk.gray(`${result.changeIds.length} applied change(s): ${result.changeIds.join(', ')}\n`));
+          printDiff(result.diff);
+        }
+        return;
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(history, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`${history.filePath}: ${history.entries.length} change(s)\n`));
+      for (const entry of history.entries) {
+        console.log(`${chalk.bold(entry.change.id)}  ${chalk.gray(new Date(entry.change.timestamp).toLocaleString())}  ${formatChangeLine(entry.change)}`);
+        console.log(chalk.gray(`   👤 ${oneLine(entry.userMessage, 100)}  (${entry.turnId || entry.sessionId})`));
+        if (entry.subagentPrompt) {
+          console.log(chalk.gray(`   🤖 ${oneLine(entry.subagentPrompt, 100)}`));
+        }
+      }
+      console.log(chalk.gray(`\nDiff between two points: crevr file-history ${file} --from <changeId> --to <changeId>`));
+      console.log(chalk.gray(`Bring the file back to before a change: crevr revert ${file} --before <changeId>`));
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('search <query...>')
+  .description('Search prompts, replies, commands, file paths and change content across sessions')
+  .option('-s, --session <sessionId>', 'only this session')
+  .option('-f, --file <path>', 'only changes to files whose path contains this')
+  .option('--since <time>', 'only matches after a date or a duration ago (e.g. 2h, 3d)')
+  .option('--until <time>', 'only matches before a date or a duration ago')
+  .option('-t, --type <type>', 'only changes of this type (create, edit, write, delete, rename, notebook)')
+  .option('-n, --limit <count>', 'maximum number of results to show', '20')
+  .option('--json', 'print machine-readable results')
+  .action(async (words: string[], options) => {
+    try {
+      checkChangeType(options.type);
+      const { ClaudeLogParser } = await import('./parser.js');
+      const { SessionSearch } = await import('./session-search.js');
+      const search = new SessionSearch(new ClaudeLogParser(projectOptions()));
+
+      const response = await search.search({
+        query: words.join(' '),
+        sessionId: options.session,
+        file: options.file,
+        since: options.since ? parseSince(options.since) : undefined,
+        until: options.until ? parseSince(options.until) : undefined,
+        type: options.type,
+        limit: parseLimit(options.limit)
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(response, null, 2));
+        return;
+      }
+
+      if (response.results.length === 0) {
+        console.log(chalk.gray('No matches'));
+        return;
+      }
+
+      for (const result of response.results) {
+        const where = result.filePath ? `  ${result.filePath}` : '';
+        console.log(`${chalk.bold(result.changeId || result.turnId)}  ${chalk.gray(new Date(result.timestamp).toLocaleString())}  ${chalk.cyan(`[${result.field}]`)}${where}`);
+        console.log(`   ${result.snippet}`);
+        console.log(chalk.gray(`   👤 ${result.userMessage}  (${result.turnId})`));
+      }
+      if (response.total > response.results.length) {
+        console.log(chalk.gray(`\n${response.total - response.results.length} more, raise --limit to see them`));
+      }
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('revert <target>')
+  .description('Revert a change, turn, subagent, session or file without starting the UI')
+  .option('-s, --session <sessionId>', 'session to revert a file\'s changes from (default: latest)')
+  .option('--dry-run', 'print the diff that would be applied without writing anything')
+  .option('-y, --yes', 'do not ask for confirmation')
+  .option('--working-tree-only', 'also revert changes that are already staged or committed, in the working tree only')
+  .option('--exclude-subagents', 'when reverting a turn, leave the changes its subagents made')
+  .option('--before <changeId>', 'bring the file back to how it was before this change, undoing every later change to it in any session')
+  .option('--json', 'print machine-readable results')
+  .action(async (target: string, options) => {
+    try {
+      const { parser, tracker, loader } = await createLoader();
+
+      let scope: RevertScope;
+      let changes: ParsedChange[];
+      if (options.before) {
+        const { FileHistory } = await import('./file-history.js');
+        const history = await new FileHistory(parser, loader, projectOptions().projectPath).getHistory(target);
+        if (!history.entries.some(entry => entry.change.id === options.before)) {
+          throw new Error(`${options.before} is not a change to ${history.filePath}, see crevr file-history ${target}`);
+        }
+        scope = { filePath: history.filePath, beforeChangeId: options.before };
+        changes = loader.selectChanges(scope, history.entries.map(entry => entry.change));
+      } else {
+        const resolved = await resolveTarget(parser, target, options.session);
+        scope = resolved.scope;
+        if (options.excludeSubagents) {
+          if (!('turnId' in scope)) {
+            throw new Error('--exclude-subagents only applies to turns');
+          }
+          scope.excludeSubagents = true;
+        }
+        const { changes: sessionChanges } = await loader.loadSession(resolved.sessionId);
+        const filePath = 'filePath' in scope ? scope.filePath : null;
+        if (filePath && !sessionChanges.some(change => path.resolve(change.filePath) === filePath)) {
+          throw new Error(`No change, turn or session "${target}", and no change to that file in session ${resolved.sessionId}`);
+        }
+        changes = loader.selectChanges(scope, sessionChanges);
+      }
       if (changes.length === 0) {
-        console.log(chalk.gray('No changes found'));
+        throw new Error('Nothing to revert: these changes were never applied');
+      }
+
+      const preview = await tracker.previewRevert(scope, changes);
+      const revertOptions: RevertOptions = { workingTreeOnly: options.workingTreeOnly === true };
+
+      if (options.dryRun) {
+        if (options.json) {
+          console.log(JSON.stringify(preview, null, 2));
+        } else {
+          printRevertPreview(preview);
+        }
+        process.exitCode = preview.hasConflicts ? 1 : 0;
         return;
       }
 
-      console.log(chalk.bold('\\nRecent Claude Code changes:\\n'));
-      
-      changes
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, 10)
-        .forEach((change, index) => {
-          const time = new Date(change.timestamp).toLocaleString();
-          const typeColor = {
-            create: chalk.green,
-            edit: chalk.yellow,
-            write: chalk.blue,
-            delete: chalk.red
-          }[change.type];
-
-          console.log(`${index + 1}. ${typeColor(change.type.toUpperCase())} ${change.filePath}`);
-          console.log(`   ${chalk.gray(time)}`);
-          console.log();
-        });
+      if (options.yes && !preview.hasConflicts && preview.committedChangeIds.length > 0 && !revertOptions.workingTreeOnly) {
+        throw new Error(`${preview.committedChangeIds.length} change(s) are already staged or committed, pass --working-tree-only to revert them in the working tree`);
+      }
+
+      // With conflicts nothing is written, so there is nothing to confirm
+      if (!options.yes && !preview.hasConflicts) {
+        if (options.json || !process.stdin.isTTY) {
+          throw new Error('Refusing to revert without confirmation, pass --yes');
+        }
+        printRevertPreview(preview);
+        const where = preview.committedChangeIds.length > 0 ? ' in the working tree only' : '';
+        if (!(await confirm(`Revert ${preview.changeIds.length} change(s) in ${preview.files.length} file(s)${where}?`))) {
+          console.log(chalk.gray('Cancelled, nothing was written'));
+          return;
+        }
+        // The preview already warned that committed work is only reverted in the working tree
+        revertOptions.workingTreeOnly = true;
+      }
+
+      // A single change goes through the same path as the UI's Revert button
+      if ('changeId' in scope) {
+        const result = await tracker.revertChange(changes[0], revertOptions);
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          printRevertResult(result);
+        }
+        process.exitCode = result.outcome === 'conflict' ? 1 : 0;
+        return;
+      }
+
+      const result = await tracker.revertBatch(scope, changes, revertOptions);
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printBatchRevertResult(result);
+      }
+      process.exitCode = result.success ? 0 : 1;
     } catch (error: any) {
-      console.error(chalk.red('Error:'), error.message);
-      process.exit(1);
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('export <target>')
+  .description('Export a change, turn, subagent or session as a patch (git apply) or mbox (git am)')
+  .option('--format <format>', 'patch (one combined diff) or mbox (one mail per turn)', 'patch')
+  .option('-o, --output <file>', 'write to a file instead of stdout')
+  .option('--author <author>', 'author of mbox patches', 'Claude <noreply@anthropic.com>')
+  .option('--json', 'print machine-readable results')
+  .action(async (target: string, options) => {
+    const { PatchExporter } = await import('./patch-export.js');
+    const fs = await import('fs');
+    try {
+      if (options.format !== 'patch' && options.format !== 'mbox') {
+        throw new Error(`Invalid --format value: ${options.format} (expected patch or mbox)`);
+      }
+
+      const { parser, loader } = await createLoader();
+      const { scope, sessionId } = await resolveTarget(parser, target);
+      if ('filePath' in scope) {
+        throw new Error(`No change, turn, subagent or session "${target}"`);
+      }
+
+      const { session } = await loader.loadSession(sessionId);
+      const result = new PatchExporter(projectOptions().projectPath, options.author).export(session, scope, options.format);
+
+      if (options.output) {
+        await fs.promises.writeFile(options.output, result.content);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (!options.output) {
+        process.stdout.write(result.content);
+      } else {
+        console.log(chalk.green(`✓ Wrote ${result.changeIds.length} change(s) in ${result.patchCount} patch(es) to ${options.output}`));
+      }
+
+      // Keep stdout a clean patch, report skipped changes on stderr
+      for (const skipped of options.json ? [] : result.skipped) {
+        console.error(chalk.yellow(`Skipped ${skipped.changeId} (${skipped.filePath}): ${skipped.reason}`));
+      }
+    } catch (error: any) {
+      printError(options.json, error);
+    }
+  });
+
+program
+  .command('commit-turns [sessionId]')
+  .description('Record a session (default: latest) on a new git branch, one commit per turn')
+  .option('-b, --branch <name>', 'branch to create (default: claude/<session id prefix>)')
+  .option('--base <rev>', 'revision the branch starts from', 'HEAD')
+  .option('--force', 'move the branch if it already exists')
+  .option('--author <author>', 'commit author as "Name <email>"', 'Claude <noreply@anthropic.com>')
+  .option('--json', 'print machine-readable results')
+  .action(async (sessionIdArg: string | undefined, options) => {
+    const { TurnCommitter } = await import('./turn-committer.js');
+    try {
+      const author = options.author.match(/^(.+?)\s*<([^>]+)>$/);
+      if (!author) {
+        throw new Error(`Invalid --author value: ${options.author} (expected "Name <email>")`);
+      }
+
+      const { parser, loader } = await createLoader();
+      const sessionId = await resolveSessionId(parser, sessionIdArg);
+      const { session } = await loader.loadSession(sessionId);
+
+      const result = await new TurnCommitter(projectOptions().projectPath).commitTurns(session, {
+        branch: options.branch,
+        base: options.base,
+        force: options.force,
+        authorName: author[1],
+        authorEmail: author[2]
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`\nBranch ${result.branch} (from ${result.base.substring(0, 7)}):\n`));
+      for (const commit of result.commits) {
+        console.log(`${chalk.yellow(commit.commit.substring(0, 7))} ${commit.subject}`);
+        commit.files.forEach(filePath => console.log(chalk.gray(`        ${filePath}`)));
+      }
+      for (const warning of result.warnings) {
+        console.log(chalk.yellow(`⚠️  ${warning}`));
+      }
+      for (const skipped of result.skipped) {
+        console.log(chalk.gray(`Skipped ${skipped.changeId} (${skipped.filePath}): ${skipped.reason}`));
+      }
+    } catch (error: any) {
+      printError(options.json, error);
     }
   });
 
+// --project and --claude-dir, given before or after the command
+function projectOptions(): ProjectOptions & { projectPath: string } {
+  const options = program.opts();
+  return {
+    projectPath: path.resolve(options.project || process.cwd()),
+    claudeDir: options.claudeDir
+  };
+}
+
+async function createLoader() {
+  const { ClaudeLogParser } = await import('./parser.js');
+  const { ChangeTracker } = await import('./change-tracker.js');
+  const { SessionLoader } = await import('./session-loader.js');
+
+  const options = projectOptions();
+  const parser = new ClaudeLogParser(options);
+  const tracker = new ChangeTracker(options.projectPath);
+  await tracker.init();
+  return { parser, tracker, loader: new SessionLoader(parser, tracker, options.projectPath) };
+}
+
+function printError(json: boolean | undefined, error: any) {
+  if (json) {
+    console.log(JSON.stringify({ error: error.message }, null, 2));
+  } else {
+    console.error(chalk.red('Error:'), error.message);
+  }
+  process.exitCode = 1;
+}
+
+// The given session, or the latest one
+async function resolveSessionId(parser: ClaudeLogParser, sessionId?: string): Promise<string> {
+  const sessions = await parser.getAllSessionMetadata();
+  if (sessions.length === 0) {
+    const location = await parser.getProjectLocation();
+    throw new Error(location.found ? 'No Claude sessions found for this project' : describeProjectLocation(location));
+  }
+  if (!sessionId) {
+    return sessions[0].sessionId;
+  }
+  // Files a conversation was resumed or compacted from are part of it
+  if (!sessions.some(session => session.sessionIds.includes(sessionId))) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+  return sessionId;
+}
+
+// An ISO date, or a duration ago such as 30m, 2h, 3d or 1w
+function parseSince(value: string): number {
+  const match = value.match(/^(\d+)\s*([mhdw])$/);
+  if (match) {
+    const units: Record<string, number> = { m: 60e3, h: 3600e3, d: 86400e3, w: 7 * 86400e3 };
+    return Date.now() - parseInt(match[1]) * units[match[2]];
+  }
+
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new Error(`Invalid --since value: ${value}`);
+  }
+  return time;
+}
+
+const CHANGE_TYPES = ['create', 'edit', 'write', 'delete', 'rename', 'notebook'];
+
+function checkChangeType(type: string | undefined) {
+  if (type && !CHANGE_TYPES.includes(type)) {
+    throw new Error(`Invalid --type value: ${type} (expected ${CHANGE_TYPES.join(', ')})`);
+  }
+}
+
+function parseLimit(value: string): number {
+  const limit = parseInt(value);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit value: ${value}`);
+  }
+  return limit;
+}
+
+function filterChanges(
+  changes: ParsedChange[],
+  options: { file?: string; since?: string; type?: string }
+): ParsedChange[] {
+  checkChangeType(options.type);
+  const filePath = options.file ? path.resolve(projectOptions().projectPath, options.file) : null;
+  const since = options.since ? parseSince(options.since) : null;
+
+  return changes.filter(change =>
+    (!filePath || path.resolve(change.filePath) === filePath ||
+      (!!change.newFilePath && path.resolve(change.newFilePath) === filePath)) &&
+    (since === null || new Date(change.timestamp).getTime() >= since) &&
+    (!options.type || change.type === options.type)
+  );
+}
+
+// JSON output for listings, without file contents and diffs (see `crevr show`)
+function summarizeChange(change: ParsedChange, userMessage?: string) {
+  return {
+    id: change.id,
+    sessionId: change.sessionId,
+    turnId: change.turnId,
+    subagentId: change.subagentId,
+    timestamp: change.timestamp,
+    type: change.type,
+    filePath: change.filePath,
+    newFilePath: change.newFilePath,
+    status: change.status,
+    canRevert: change.canRevert,
+    userMessage
+  };
+}
+
+// The user prompt of each turn, by turn id
+function turnPrompts(session: SessionWithTurns): Map<string, string> {
+  return new Map(session.turns.map(turn => [turn.id, turn.userMessage]));
+}
+
+const GIT_STATE_LABELS: Record<ChangeGitState, string> = {
+  uncommitted: 'uncommitted',
+  staged: 'staged',
+  committed: 'committed',
+  modified: 'modified since'
+};
+
+function formatChangeLine(change: ParsedChange): string {
+  const typeColor = {
+    create: chalk.green,
+    edit: chalk.yellow,
+    write: chalk.blue,
+    delete: chalk.red,
+    rename: chalk.magenta,
+    notebook: chalk.cyan
+  }[change.type];
+  const status = change.status === 'applied' ? '' : chalk.gray(` [${change.status}]`);
+  const gitState = change.gitState ? chalk.gray(` (${GIT_STATE_LABELS[change.gitState]})`) : '';
+  const target = change.type === 'rename'
+    ? ` → ${change.newFilePath}`
+    : change.notebookEdit ? chalk.gray(` (${formatNotebookEdit(change.notebookEdit)})`) : '';
+  return `${typeColor(change.type.toUpperCase())} ${change.filePath}${target}${status}${gitState}`;
+}
+
+function formatNotebookEdit(edit: NotebookCellEdit): string {
+  if (edit.editMode === 'insert') {
+    return edit.cellId ? `insert after cell ${edit.cellId}` : 'insert at start';
+  }
+  return `${edit.editMode} cell ${edit.cellId}`;
+}
+
+function formatBoundary(boundary: ConversationBoundary): string {
+  const time = new Date(boundary.timestamp).toLocaleString();
+  if (boundary.kind === 'resume') {
+    return `Resumed in ${boundary.sessionId} (${time})`;
+  }
+  return `Conversation compacted${boundary.trigger ? ` (${boundary.trigger})` : ''} ${time}`;
+}
+
+// Work out what a command line target refers to: a session id, a turn id
+// (<sessionId>-turn-<n>), a change (tool_use) id, or else a file path
+async function resolveTarget(
+  parser: ClaudeLogParser,
+  target: string,
+  sessionOption?: string
+): Promise<{ scope: RevertScope; sessionId: string }> {
+  const sessions = await parser.getAllSessionMetadata();
+  if (sessions.length === 0) {
+    throw new Error('No Claude sessions found for this project');
+  }
+  const hasSession = (sessionId: string) => sessions.some(session => session.sessionIds.includes(sessionId));
+
+  if (hasSession(target)) {
+    return { scope: { sessionId: target }, sessionId: target };
+  }
+
+  const turnMatch = target.match(/^(.+)-turn-\d+$/);
+  if (turnMatch && hasSession(turnMatch[1])) {
+    return { scope: { turnId: target }, sessionId: turnMatch[1] };
+  }
+
+  const changeSession = await parser.findSessionForChange(target);
+  if (changeSession) {
+    return { scope: { changeId: target }, sessionId: changeSession };
+  }
+
+  const subagentSession = await parser.findSessionForSubagent(target);
+  if (subagentSession) {
+    return { scope: { subagentId: target }, sessionId: subagentSession };
+  }
+
+  const sessionId = sessionOption || sessions[0].sessionId;
+  if (!hasSession(sessionId)) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+  return { scope: { filePath: path.resolve(projectOptions().projectPath, target) }, sessionId };
+}
+
+function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => {
+    rl.question(`${question} [y/N] `, answer => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+function printDiff(patch: string) {
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('===') || line.startsWith('Index:')) {
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+function printConflicts(results: RevertResult[]) {
+  for (const result of results.filter(r => r.outcome === 'conflict')) {
+    console.log(chalk.red(`✗ ${result.filePath}: ${result.message || 'conflict'}`));
+    for (const conflict of result.conflicts) {
+      console.log(chalk.gray(`  ${conflict.oursStart ? `line ${conflict.oursStart}` : 'edited text'}:`));
+      conflict.ours.forEach(line => console.log(chalk.yellow(`  current  | ${line.replace(/\n$/, '')}`)));
+      conflict.theirs.forEach(line => console.log(chalk.green(`  restore  | ${line.replace(/\n$/, '')}`)));
+    }
+  }
+}
+
+function printRevertPreview(preview: RevertPreview) {
+  console.log(chalk.bold(`\nReverting ${preview.changeIds.length} change(s) in ${preview.files.length} file(s):\n`));
+
+  for (const file of preview.files) {
+    const notes = [
+      file.deletesFile ? chalk.red('file will be deleted') : '',
+      file.conflict ? chalk.red('conflict') : ''
+    ].filter(Boolean).join(' ');
+    console.log(chalk.bold(file.filePath) + (notes ? ` ${notes}` : ''));
+    printDiff(file.diff);
+    console.log();
+  }
+
+  if (preview.hasConflicts) {
+    printConflicts(preview.results);
+  }
+
+  for (const warning of preview.warnings) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+}
+
+function printRevertResult(result: RevertResult) {
+  if (result.outcome === 'conflict') {
+    printConflicts([result]);
+    console.log(chalk.red('Nothing was written'));
+    return;
+  }
+
+  const note = result.outcome === 'merged' ? chalk.gray(' (merged with later edits)') : '';
+  console.log(chalk.green(`✓ Reverted ${result.changeId} in ${result.filePath}`) + note);
+}
+
+function printBatchRevertResult(result: BatchRevertResult) {
+  if (!result.success) {
+    console.log(chalk.red(`✗ ${result.error || 'Revert failed'}`));
+    printConflicts(result.results);
+    return;
+  }
+
+  console.log(chalk.green(`✓ Reverted ${result.changeIds.length} change(s) in ${result.filesWritten.length} file(s)`));
+  result.filesWritten.forEach(filePath => console.log(chalk.gray(`  ${filePath}`)));
+}
+
 program.parse();
\ No newline at end of file
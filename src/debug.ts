@@ -0,0 +1,7 @@
+// Progress and diagnostic output, shown only with CREVR_DEBUG set. It goes to stderr, so
+// commands that print results (or --json) keep stdout to themselves.
+export function debug(...args: any[]): void {
+  if (process.env.CREVR_DEBUG) {
+    console.error(...args);
+  }
+}
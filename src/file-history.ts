@@ -0,0 +1,182 @@
+import * as path from 'path';
+import * as diff from 'diff';
+import { ClaudeLogParser } from './parser.js';
+import { SessionLoader } from './session-loader.js';
+import { recoveredContents } from './change-tracker.js';
+import { FileHistoryDiff, FileHistoryEntry, FileHistoryResponse, ParsedChange } from './types.js';
+
+// Everything Claude did to one file across all sessions of a project, oldest first, and
+// the file between any two points of that history
+export class FileHistory {
+  private parser: ClaudeLogParser;
+  private loader: SessionLoader;
+  private projectPath: string;
+
+  constructor(parser: ClaudeLogParser, loader: SessionLoader, projectPath: string = process.cwd()) {
+    this.parser = parser;
+    this.loader = loader;
+    this.projectPath = path.resolve(projectPath);
+  }
+
+  // Only the sessions whose index shows a change to the file, or to a path it was renamed
+  // from, are loaded. Changes on abandoned branches are included, with their status.
+  async getHistory(filePath: string): Promise<FileHistoryResponse> {
+    const file = path.resolve(this.projectPath, filePath);
+    const candidates: FileHistoryEntry[] = [];
+    const loaded = new Set<string>();
+    const paths = [file];
+
+    // Earlier paths of the file are only known from the renames found so far
+    for (let i = 0; i < paths.length; i++) {
+      for (const sessionId of await this.parser.getSessionsForFile(paths[i])) {
+        if (!loaded.has(sessionId)) {
+          loaded.add(sessionId);
+          candidates.push(...await this.sessionEntries(sessionId));
+        }
+      }
+      for (const { change } of candidates) {
+        if (isMove(change) && paths.includes(path.resolve(change.newFilePath!)) && !paths.includes(path.resolve(change.filePath))) {
+          paths.push(path.resolve(change.filePath));
+        }
+      }
+    }
+
+    // Stable, so changes of one session keep their log order
+    candidates.sort((a, b) => new Date(a.change.timestamp).getTime() - new Date(b.change.timestamp).getTime());
+
+    // Newest first, following each rename to the file back to where it came from
+    const entries: FileHistoryEntry[] = [];
+    let current = file;
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const { change } = candidates[i];
+      if (!touchesFile(change, current)) {
+        continue;
+      }
+      entries.push(candidates[i]);
+      if (isMove(change) && path.resolve(change.newFilePath!) === current) {
+        current = path.resolve(change.filePath);
+      }
+    }
+
+    return { filePath: file, entries: entries.reverse() };
+  }
+
+  private async sessionEntries(sessionId: string): Promise<FileHistoryEntry[]> {
+    const { session } = await this.loader.loadSession(sessionId);
+    const turns = [...session.turns, ...session.abandonedBranches.flatMap(branch => branch.turns)];
+
+    return turns.flatMap(turn => (turn.parsedChanges || []).map(change => {
+      const subagent = change.subagentId ? turn.subagents?.find(s => s.id === change.subagentId) : undefined;
+      return {
+        change,
+        sessionId: session.sessionId,
+        turnId: turn.id,
+        userMessage: turn.userMessageFull || turn.userMessage,
+        subagentPrompt: subagent?.prompt
+      };
+    }));
+  }
+
+  // The file before fromChangeId and after toChangeId. Only applied changes in between
+  // count, the others never reached the file.
+  diffBetween(history: FileHistoryResponse, fromChangeId: string, toChangeId: string): FileHistoryDiff {
+    const from = history.entries.findIndex(entry => entry.change.id === fromChangeId);
+    const to = history.entries.findIndex(entry => entry.change.id === toChangeId);
+    if (from === -1 || to === -1) {
+      throw new Error('Change not found in the file history');
+    }
+    if (from > to) {
+      throw new Error(`${fromChangeId} comes after ${toChangeId}`);
+    }
+
+    const applied = history.entries
+      .map((entry, index) => ({ change: entry.change, index }))
+      .slice(from, to + 1)
+      .filter(({ change }) => change.status === 'applied');
+    if (applied.length === 0) {
+      throw new Error('No applied changes between these points');
+    }
+    const changes = applied.map(({ change }) => change);
+
+    const first = changes[0];
+    const last = changes[changes.length - 1];
+    const movedAway = movesAway(history);
+    const before = fileState(history, applied[0].index, 'before', movedAway);
+    const after = fileState(history, applied[applied.length - 1].index, 'after', movedAway);
+    if (before === undefined) {
+      throw new Error(`The file before ${first.id} could not be recovered`);
+    }
+    if (after === undefined) {
+      throw new Error(`The file after ${last.id} could not be recovered`);
+    }
+
+    const relativePath = path.relative(this.projectPath, history.filePath).split(path.sep).join('/');
+    return {
+      filePath: history.filePath,
+      fromChangeId,
+      toChangeId,
+      changeIds: changes.map(change => change.id),
+      before,
+      after,
+      diff: diff.createPatch(relativePath, before ?? '', after ?? '', `Before ${fromChangeId}`, `After ${toChangeId}`)
+    };
+  }
+}
+
+function touchesFile(change: ParsedChange, file: string): boolean {
+  return path.resolve(change.filePath) === file || (!!change.newFilePath && path.resolve(change.newFilePath) === file);
+}
+
+function isMove(change: ParsedChange): boolean {
+  return change.type === 'rename' && change.status === 'applied' && !!change.newFilePath;
+}
+
+// Renames in a history that moved the file away from its path, rather than to the next
+// path it had
+function movesAway(history: FileHistoryResponse): Set<string> {
+  const away = new Set<string>();
+  let current = history.filePath;
+  for (let i = history.entries.length - 1; i >= 0; i--) {
+    const { change } = history.entries[i];
+    if (isMove(change)) {
+      if (path.resolve(change.newFilePath!) === current) {
+        current = path.resolve(change.filePath);
+      } else {
+        away.add(change.id);
+      }
+    }
+  }
+  return away;
+}
+
+// The file as the change at index found or left it: null where it did not exist,
+// undefined where the log does not tell. Renames carry no content, so the file is what
+// the last applied change before them left.
+function fileState(
+  history: FileHistoryResponse,
+  index: number,
+  side: 'before' | 'after',
+  movedAway: Set<string>
+): string | null | undefined {
+  const change = history.entries[index].change;
+  if (change.type !== 'rename') {
+    return recoveredContents(change)[side];
+  }
+  if (side === 'after' && movedAway.has(change.id)) {
+    return null;
+  }
+
+  for (let i = index - 1; i >= 0; i--) {
+    const previous = history.entries[i].change;
+    if (previous.status !== 'applied') {
+      continue;
+    }
+    if (previous.type !== 'rename') {
+      return recoveredContents(previous).after;
+    }
+    if (movedAway.has(previous.id)) {
+      return null;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { FileGitStatus } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+export class GitRepository {
+  private cwd: string;
+  // git directory of each directory asked about, null outside a repository
+  private gitDirs: Map<string, string | null> = new Map();
+
+  constructor(cwd: string = process.cwd()) {
+    this.cwd = cwd;
+  }
+
+  private async git(
+    args: string[],
+    cwd: string = this.cwd,
+    options: { env?: Record<string, string>; input?: string } = {}
+  ): Promise<string> {
+    const command = execFileAsync('git', args, {
+      cwd,
+      env: options.env ? { ...process.env, ...options.env } : undefined,
+      maxBuffer: 64 * 1024 * 1024
+    });
+    if (options.input !== undefined) {
+      command.child.stdin!.end(options.input);
+    }
+    const { stdout } = await command;
+    return stdout;
+  }
+
+  async isRepository(): Promise<boolean> {
+    try {
+      const output = await this.git(['rev-parse', '--is-inside-work-tree']);
+      return output.trim() === 'true';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Absolute path of the working tree root
+  async topLevel(): Promise<string> {
+    return (await this.git(['rev-parse', '--show-toplevel'])).trim();
+  }
+
+  // Commit id of a revision, or null if it does not resolve to a commit
+  async resolveCommit(rev: string): Promise<string | null> {
+    try {
+      return (await this.git(['rev-parse', '--verify', '--quiet', `${rev}^{commit}`])).trim();
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Content of a file (path relative to the repository root) in a commit, or null if absent
+  async readFileAt(commit: string, filePath: string): Promise<string | null> {
+    try {
+      return await this.git(['show', `${commit}:${filePath}`]);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Tree of a commit with some files replaced (null content removes the file). Built in a
+  // temporary index, so the working tree and the real index are left alone.
+  async writeTree(parent: string, files: Map<string, string | null>): Promise<string> {
+    const indexFile = path.join(os.tmpdir(), `crevr-index-${process.pid}-${Date.now()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      await this.git(['read-tree', parent], this.cwd, { env });
+
+      for (const [filePath, content] of files) {
+        if (content === null) {
+          await this.git(['update-index', '--force-remove', '--', filePath], this.cwd, { env });
+          continue;
+        }
+
+        const blob = (await this.git(['hash-object', '-w', '--stdin'], this.cwd, { input: content })).trim();
+        // Keep the mode of files that already exist (e.g. executables)
+        const staged = await this.git(['ls-files', '--stage', '--', filePath], this.cwd, { env });
+        const mode = staged.split(' ')[0] || '100644';
+        await this.git(['update-index', '--add', '--cacheinfo', `${mode},${blob},${filePath}`], this.cwd, { env });
+      }
+
+      return (await this.git(['write-tree'], this.cwd, { env })).trim();
+    } finally {
+      await fs.promises.rm(indexFile, { force: true });
+    }
+  }
+
+  async commitTree(
+    tree: string,
+    parent: string,
+    message: string,
+    identity: { name: string; email: string; date: string }
+  ): Promise<string> {
+    const env = {
+      GIT_AUTHOR_NAME: identity.name,
+      GIT_AUTHOR_EMAIL: identity.email,
+      GIT_AUTHOR_DATE: identity.date,
+      GIT_COMMITTER_NAME: identity.name,
+      GIT_COMMITTER_EMAIL: identity.email,
+      GIT_COMMITTER_DATE: identity.date
+    };
+    return (await this.git(['commit-tree', tree, '-p', parent, '-F', '-'], this.cwd, { env, input: message })).trim();
+  }
+
+  // Point a branch at a commit. Without force an existing branch is left alone.
+  async setBranch(branch: string, commit: string, force: boolean = false): Promise<void> {
+    const ref = `refs/heads/${branch}`;
+    await this.git(['check-ref-format', ref]);
+    if (!force && await this.resolveCommit(ref)) {
+      throw new Error(`Branch ${branch} already exists`);
+    }
+    await this.git(['update-ref', '-m', 'crevr commit-turns', ref, commit]);
+  }
+
+  // Content of a file as staged in the index, or null if it is not in the index
+  async readIndexFile(filePath: string): Promise<string | null> {
+    const absolutePath = path.resolve(this.cwd, filePath);
+
+    try {
+      // ":./name" is the index entry relative to the file's directory
+      return await this.git(
+        ['show', `:./${path.basename(absolutePath)}`],
+        path.dirname(absolutePath)
+      );
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // A key that changes whenever the file, the index or HEAD may have changed, from file
+  // stamps alone; null outside a repository. Moving HEAD appends to its reflog.
+  async stateKey(filePath: string): Promise<string | null> {
+    const absolutePath = path.resolve(this.cwd, filePath);
+    const directory = path.dirname(absolutePath);
+
+    if (!this.gitDirs.has(directory)) {
+      try {
+        this.gitDirs.set(directory, (await this.git(['rev-parse', '--absolute-git-dir'], directory)).trim());
+      } catch (error) {
+        // A directory that does not exist yet may still end up in a repository
+        if (!fs.existsSync(directory)) {
+          return null;
+        }
+        this.gitDirs.set(directory, null);
+      }
+    }
+
+    const gitDir = this.gitDirs.get(directory);
+    if (!gitDir) {
+      return null;
+    }
+
+    const stamps = await Promise.all(
+      [absolutePath, path.join(gitDir, 'index'), path.join(gitDir, 'HEAD'), path.join(gitDir, 'logs', 'HEAD')]
+        .map(file => fs.promises.stat(file).then(stat => `${stat.mtimeMs}:${stat.size}`, () => '-'))
+    );
+    return stamps.join('|');
+  }
+
+  // git status of one file, or null outside a repository
+  async fileStatus(filePath: string): Promise<FileGitStatus | null> {
+    const absolutePath = path.resolve(this.cwd, filePath);
+
+    try {
+      const output = await this.git(
+        ['status', '--porcelain', '--ignored', '--', path.basename(absolutePath)],
+        path.dirname(absolutePath)
+      );
+      // "XY path": X is the index, Y the working tree; empty output means clean
+      const code = output.substring(0, 2);
+      const untracked = code === '??' || code === '!!';
+      return {
+        tracked: !untracked,
+        staged: !untracked && code[0] !== ' ' && code[0] !== undefined,
+        unstaged: !untracked && code[1] !== ' ' && code[1] !== undefined
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Content of a file as committed in HEAD, or null if git is unavailable,
+  // the file is outside a repository, or it is not tracked in HEAD
+  async readHeadFile(filePath: string): Promise<string | null> {
+    const absolutePath = path.resolve(this.cwd, filePath);
+
+    try {
+      // Run from the file's directory so "./name" resolves relative to it
+      return await this.git(
+        ['show', `HEAD:./${path.basename(absolutePath)}`],
+        path.dirname(absolutePath)
+      );
+    } catch (error) {
+      return null;
+    }
+  }
+}
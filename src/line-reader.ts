@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+
+export interface JsonlLine {
+  line: string;
+  start: number;  // Byte offset of the first character of the line
+  end: number;  // Byte offset just past the line (and its newline)
+  complete: boolean;  // False for a last line without a trailing newline
+}
+
+// Stream a file line by line from a byte offset, without loading it into memory.
+// Offsets are in bytes so callers can resume exactly where they stopped.
+export async function* readLines(filePath: string, start: number = 0): AsyncGenerator<JsonlLine> {
+  const stream = fs.createReadStream(filePath, { start });
+  let buffered = Buffer.alloc(0);
+  let offset = start;  // File offset of buffered[0]
+
+  for await (const chunk of stream) {
+    buffered = buffered.length > 0 ? Buffer.concat([buffered, chunk as Buffer]) : chunk as Buffer;
+
+    let newline: number;
+    while ((newline = buffered.indexOf(0x0a)) !== -1) {
+      const line = buffered.subarray(0, newline).toString('utf-8');
+      const lineStart = offset;
+      offset += newline + 1;
+      buffered = buffered.subarray(newline + 1);
+      yield { line, start: lineStart, end: offset, complete: true };
+    }
+  }
+
+  if (buffered.length > 0) {
+    yield {
+      line: buffered.toString('utf-8'),
+      start: offset,
+      end: offset + buffered.length,
+      complete: false
+    };
+  }
+}
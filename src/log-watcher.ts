@@ -0,0 +1,172 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { ClaudeLogEntry } from './types.js';
+import { readLines } from './line-reader.js';
+import { isSubagentLogFile } from './parser.js';
+import { debug } from './debug.js';
+
+// Claude writes a log line in several chunks; wait for writes to settle
+const DEBOUNCE_MS = 150;
+// How often to check for the log directory when it does not exist yet
+const DIRECTORY_POLL_MS = 2000;
+
+// Tails the session logs of one project directory.
+//
+// Events:
+//   'session' (sessionId, filePath)           a new session file appeared
+//   'entries' (sessionId, filePath, entries)  complete lines appended to a session file
+//
+// Subagent logs (agent-*.jsonl) report their entries under the session that started them.
+export class LogWatcher extends EventEmitter {
+  private logDir: string;
+  private watcher: fs.FSWatcher | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  // Bytes already seen per session file
+  private offsets: Map<string, number> = new Map();
+  // Files currently being read, and files that changed again meanwhile
+  private reading: Set<string> = new Set();
+  private pending: Set<string> = new Set();
+
+  constructor(logDir: string) {
+    super();
+    this.logDir = logDir;
+  }
+
+  async start(): Promise<void> {
+    try {
+      // Existing content is not replayed, only what is appended from now on
+      for (const file of await fs.promises.readdir(this.logDir)) {
+        if (file.endsWith('.jsonl')) {
+          const stat = await fs.promises.stat(path.join(this.logDir, file));
+          this.offsets.set(file, stat.size);
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      // No session yet in this project: wait for Claude to create the directory
+      this.pollTimer = setInterval(() => {
+        if (fs.existsSync(this.logDir)) {
+          clearInterval(this.pollTimer!);
+          this.pollTimer = null;
+          this.watch();
+          this.scan();
+        }
+      }, DIRECTORY_POLL_MS);
+      return;
+    }
+
+    this.watch();
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private watch(): void {
+    debug(`Watching ${this.logDir} for new activity`);
+    this.watcher = fs.watch(this.logDir, (eventType, filename) => {
+      if (filename && filename.toString().endsWith('.jsonl')) {
+        this.schedule(filename.toString());
+      } else if (!filename) {
+        // Some platforms do not report the file name
+        this.scan();
+      }
+    });
+    this.watcher.on('error', (error) => {
+      console.error('Log watcher error:', error);
+    });
+  }
+
+  private async scan(): Promise<void> {
+    try {
+      for (const file of await fs.promises.readdir(this.logDir)) {
+        if (file.endsWith('.jsonl')) {
+          this.schedule(file);
+        }
+      }
+    } catch (error) {
+      console.error('Error scanning log directory:', error);
+    }
+  }
+
+  private schedule(file: string): void {
+    clearTimeout(this.timers.get(file));
+    this.timers.set(file, setTimeout(() => {
+      this.timers.delete(file);
+      this.readAppended(file);
+    }, DEBOUNCE_MS));
+  }
+
+  private async readAppended(file: string): Promise<void> {
+    if (this.reading.has(file)) {
+      this.pending.add(file);
+      return;
+    }
+    this.reading.add(file);
+
+    const filePath = path.join(this.logDir, file);
+    const sessionId = path.basename(file, '.jsonl');
+
+    try {
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      if (!stat) {
+        // Session file removed
+        this.offsets.delete(file);
+        return;
+      }
+
+      let offset = this.offsets.get(file);
+      if (offset === undefined) {
+        if (!isSubagentLogFile(file)) {
+          this.emit('session', sessionId, filePath);
+        }
+        offset = 0;
+      } else if (stat.size < offset) {
+        // Rewritten from scratch
+        offset = 0;
+      }
+
+      const entries: ClaudeLogEntry[] = [];
+      for await (const { line, end, complete } of readLines(filePath, offset)) {
+        if (!complete) {
+          // Still being written, read it on the next change
+          break;
+        }
+        offset = end;
+        try {
+          if (line.trim()) {
+            entries.push(JSON.parse(line));
+          }
+        } catch (error) {
+          // Skip malformed lines
+        }
+      }
+
+      this.offsets.set(file, offset);
+      const owner = isSubagentLogFile(file) ? entries.find(entry => entry.sessionId)?.sessionId : sessionId;
+      if (entries.length > 0 && owner) {
+        this.emit('entries', owner, filePath, entries);
+      }
+    } catch (error) {
+      console.error(`Error reading ${filePath}:`, error);
+    } finally {
+      this.reading.delete(file);
+      if (this.pending.delete(file)) {
+        this.schedule(file);
+      }
+    }
+  }
+}
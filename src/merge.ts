@@ -0,0 +1,133 @@
+import * as diff from 'diff';
+import { MergeConflict } from './types.js';
+
+export interface MergeResult {
+  content: string;
+  conflicts: MergeConflict[];
+}
+
+// A replacement of base[baseStart, baseEnd) by lines, produced by one side of the merge
+interface Region {
+  side: 'ours' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+// Split keeping line endings, so joining the pieces gives back the exact input
+export function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function diffRegions(base: string[], other: string[], side: Region['side']): Region[] {
+  const regions: Region[] = [];
+  let baseIndex = 0;
+  let current: Region | null = null;
+
+  for (const part of diff.diffArrays(base, other)) {
+    const count = part.value.length;
+
+    if (!part.added && !part.removed) {
+      if (current) {
+        regions.push(current);
+        current = null;
+      }
+      baseIndex += count;
+      continue;
+    }
+
+    if (!current) {
+      current = { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+    }
+
+    if (part.removed) {
+      baseIndex += count;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+
+  if (current) {
+    regions.push(current);
+  }
+
+  return regions;
+}
+
+// Apply one side's regions to the base lines in [start, end)
+function applyRegions(base: string[], start: number, end: number, regions: Region[]): string[] {
+  const result: string[] = [];
+  let index = start;
+
+  for (const region of regions) {
+    result.push(...base.slice(index, region.baseStart));
+    result.push(...region.lines);
+    index = region.baseEnd;
+  }
+
+  result.push(...base.slice(index, end));
+  return result;
+}
+
+// Line-based three-way merge (diff3). Changes made by only one side are taken as-is,
+// identical changes on both sides are taken once, anything else is reported as a conflict
+// and the current ("ours") lines are kept in the merged content.
+export function threeWayMerge(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const regions = [
+    ...diffRegions(baseLines, splitLines(ours), 'ours'),
+    ...diffRegions(baseLines, splitLines(theirs), 'theirs')
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let baseIndex = 0;
+  // Line offset between base and ours, for reporting conflict positions in the current file
+  let oursOffset = 0;
+  let i = 0;
+
+  while (i < regions.length) {
+    // Group regions that touch the same (or adjacent) base lines
+    const group = [regions[i]];
+    const groupStart = regions[i].baseStart;
+    let groupEnd = regions[i].baseEnd;
+    i++;
+    while (i < regions.length && regions[i].baseStart <= groupEnd) {
+      group.push(regions[i]);
+      groupEnd = Math.max(groupEnd, regions[i].baseEnd);
+      i++;
+    }
+
+    output.push(...baseLines.slice(baseIndex, groupStart));
+
+    const oursRegions = group.filter(region => region.side === 'ours');
+    const theirsRegions = group.filter(region => region.side === 'theirs');
+    const oursLines = applyRegions(baseLines, groupStart, groupEnd, oursRegions);
+    const theirsLines = applyRegions(baseLines, groupStart, groupEnd, theirsRegions);
+
+    if (theirsRegions.length === 0) {
+      output.push(...oursLines);
+    } else if (oursRegions.length === 0 || oursLines.join('') === theirsLines.join('')) {
+      output.push(...theirsLines);
+    } else {
+      conflicts.push({
+        oursStart: groupStart + oursOffset + 1,
+        base: baseLines.slice(groupStart, groupEnd),
+        ours: oursLines,
+        theirs: theirsLines
+      });
+      output.push(...oursLines);
+    }
+
+    oursOffset += oursLines.length - (groupEnd - groupStart);
+    baseIndex = groupEnd;
+  }
+
+  output.push(...baseLines.slice(baseIndex));
+
+  return {
+    content: output.join(''),
+    conflicts
+  };
+}
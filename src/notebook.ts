@@ -0,0 +1,189 @@
+import { NotebookCellEdit } from './types.js';
+import { splitLines } from './merge.js';
+
+interface NotebookCell {
+  cell_type: string;
+  id?: string;
+  source: string | string[];
+  metadata?: any;
+  outputs?: any[];
+  execution_count?: number | null;
+  [key: string]: any;
+}
+
+interface Notebook {
+  cells: NotebookCell[];
+  [key: string]: any;
+}
+
+// A notebook after undoing a cell edit, or why the edit cannot be undone
+export type NotebookRevert = { content: string } | { conflict: string };
+
+// Apply a NotebookEdit to a notebook the way Claude does. Returns null if the notebook
+// cannot be parsed or the cell is not in it.
+export function applyNotebookEdit(content: string, edit: NotebookCellEdit): string | null {
+  const notebook = parseNotebook(content);
+  if (!notebook) {
+    return null;
+  }
+  const index = edit.cellId ? findCell(notebook, edit.cellId) : -1;
+
+  if (edit.editMode === 'insert') {
+    if (edit.cellId && index === -1) {
+      return null;
+    }
+    const cell: NotebookCell = {
+      cell_type: edit.cellType || 'code',
+      ...(edit.newCellId ? { id: edit.newCellId } : {}),
+      metadata: {},
+      source: splitLines(edit.newSource)
+    };
+    if (cell.cell_type === 'code') {
+      cell.execution_count = null;
+      cell.outputs = [];
+    }
+    // After the given cell, or first
+    notebook.cells.splice(index + 1, 0, cell);
+  } else if (index === -1) {
+    return null;
+  } else if (edit.editMode === 'delete') {
+    notebook.cells.splice(index, 1);
+  } else {
+    const cell = notebook.cells[index];
+    cell.source = splitLines(edit.newSource);
+    cell.cell_type = edit.cellType || cell.cell_type;
+    // New source invalidates what the cell printed
+    if (cell.cell_type === 'code') {
+      cell.execution_count = null;
+      cell.outputs = [];
+    } else {
+      delete cell.execution_count;
+      delete cell.outputs;
+    }
+  }
+
+  return serializeNotebook(notebook, content);
+}
+
+// Undo a NotebookEdit on the notebook as it is now with the inverse cell operation: remove
+// an inserted cell, put back a deleted one, restore a replaced one. before is the notebook
+// before the edit; only inserts can be undone without it.
+export function revertNotebookEdit(current: string, edit: NotebookCellEdit, before?: string): NotebookRevert {
+  const notebook = parseNotebook(current);
+  if (!notebook) {
+    return { conflict: 'The notebook can no longer be parsed' };
+  }
+  const original = before !== undefined ? parseNotebook(before) : null;
+  const originalIndex = original && edit.cellId ? findCell(original, edit.cellId) : -1;
+
+  if (edit.editMode === 'insert') {
+    // The inserted cell by its id, else the cell it was inserted after unless cells were
+    // moved since
+    const anchor = edit.cellId ? findCell(notebook, edit.cellId) : -1;
+    let index = edit.newCellId
+      ? notebook.cells.findIndex(cell => cell.id === edit.newCellId && cellSource(cell) === edit.newSource)
+      : -1;
+    if (index === -1 && (!edit.cellId || anchor !== -1) && cellSource(notebook.cells[anchor + 1]) === edit.newSource) {
+      index = anchor + 1;
+    }
+    if (index === -1) {
+      const matches = notebook.cells.flatMap((cell, i) => cellSource(cell) === edit.newSource ? [i] : []);
+      index = matches.length === 1 ? matches[0] : -1;
+    }
+    if (index === -1) {
+      return { conflict: 'The inserted cell has been changed or removed since' };
+    }
+    notebook.cells.splice(index, 1);
+    return { content: serializeNotebook(notebook, current) };
+  }
+
+  if (!original || originalIndex === -1) {
+    return { conflict: `The cell before this ${edit.editMode} is not known` };
+  }
+  const originalCell = original.cells[originalIndex];
+
+  if (edit.editMode === 'delete') {
+    if (originalCell.id && notebook.cells.some(cell => cell.id === originalCell.id)) {
+      return { conflict: 'The notebook has a cell with this id again' };
+    }
+    // Back after the cell that preceded it, or where it was if that one is gone too
+    const previous = originalIndex > 0 ? original.cells[originalIndex - 1] : null;
+    const previousIndex = previous?.id ? notebook.cells.findIndex(cell => cell.id === previous.id) : -1;
+    const index = !previous ? 0 : previousIndex !== -1 ? previousIndex + 1 : Math.min(originalIndex, notebook.cells.length);
+    notebook.cells.splice(index, 0, originalCell);
+    return { content: serializeNotebook(notebook, current) };
+  }
+
+  const index = findCell(notebook, edit.cellId!);
+  if (index === -1) {
+    return { conflict: 'The edited cell no longer exists' };
+  }
+  if (cellSource(notebook.cells[index]) !== edit.newSource) {
+    return { conflict: 'The cell has been modified since this change' };
+  }
+  notebook.cells[index] = originalCell;
+  return { content: serializeNotebook(notebook, current) };
+}
+
+// Source of the edited cell before and after a NotebookEdit, for a per-cell diff.
+// oldSource is undefined when the notebook before the edit is not known.
+export function editedCellSources(before: string | undefined, edit: NotebookCellEdit): { oldSource?: string; newSource: string } {
+  const newSource = edit.editMode === 'delete' ? '' : edit.newSource;
+  if (edit.editMode === 'insert') {
+    return { oldSource: '', newSource };
+  }
+
+  const notebook = before !== undefined ? parseNotebook(before) : null;
+  const index = notebook && edit.cellId ? findCell(notebook, edit.cellId) : -1;
+  return { oldSource: index !== -1 ? cellSource(notebook!.cells[index]) : undefined, newSource };
+}
+
+// Whether a notebook still has what a NotebookEdit did
+export function containsNotebookEdit(content: string, edit: NotebookCellEdit): boolean {
+  const notebook = parseNotebook(content);
+  if (!notebook) {
+    return false;
+  }
+
+  if (edit.editMode === 'delete') {
+    // Cells addressed by position (cell-N) cannot be told apart once one is gone
+    return !notebook.cells.some(cell => cell.id === edit.cellId);
+  }
+  if (edit.editMode === 'insert') {
+    return notebook.cells.some(cell => (!edit.newCellId || cell.id === edit.newCellId) && cellSource(cell) === edit.newSource);
+  }
+  const index = edit.cellId ? findCell(notebook, edit.cellId) : -1;
+  return index !== -1 && cellSource(notebook.cells[index]) === edit.newSource;
+}
+
+function parseNotebook(content: string): Notebook | null {
+  try {
+    const notebook = JSON.parse(content);
+    return notebook && Array.isArray(notebook.cells) ? notebook : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Jupyter writes one-space indentation and a trailing newline; keep what the file used
+function serializeNotebook(notebook: Notebook, like: string): string {
+  const indent = like.match(/^\{\r?\n([ \t]+)"/)?.[1] ?? ' ';
+  return JSON.stringify(notebook, null, indent) + (like.endsWith('\n') ? '\n' : '');
+}
+
+// Cells are addressed by id, or as cell-N (0-based) in notebooks without cell ids
+function findCell(notebook: Notebook, cellId: string): number {
+  const index = notebook.cells.findIndex(cell => cell.id === cellId);
+  if (index !== -1) {
+    return index;
+  }
+  const position = cellId.match(/^cell-(\d+)$/);
+  return position && Number(position[1]) < notebook.cells.length ? Number(position[1]) : -1;
+}
+
+function cellSource(cell: NotebookCell | undefined): string | undefined {
+  if (!cell) {
+    return undefined;
+  }
+  return Array.isArray(cell.source) ? cell.source.join('') : cell.source || '';
+}
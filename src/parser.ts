@@ -1,67 +1,127 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
-import { ClaudeLogEntry, FileChange, SessionMetadata, ConversationTurn, SessionWithTurns } from './types.js';
+import { createHash } from 'crypto';
+import {
+  ClaudeLogEntry,
+  FileChange,
+  SessionMetadata,
+  ConversationTurn,
+  SessionWithTurns,
+  ChangeStatus,
+  ToolResult,
+  SessionIndexEntry,
+  SubagentRun,
+  ConversationBranch,
+  ConversationBoundary,
+  BashSideEffect,
+  ProjectLocation,
+  ProjectOptions
+} from './types.js';
+import { readLines } from './line-reader.js';
+import { SessionIndex } from './session-index.js';
+import { ProjectLocator, describeProjectLocation } from './project-locator.js';
+import { analyzeBashCommand } from './bash-effects.js';
+import { debug } from './debug.js';
+
+// tool_result texts that mean the user (or the permission system) refused the tool use,
+// as opposed to the tool itself failing
+const REJECTION_PATTERNS = [
+  /doesn't want to proceed with this tool use/i,
+  /tool use was rejected/i,
+  /requested permissions? to/i,
+  /haven't granted it/i,
+  /permission (was )?denied/i
+];
+// The messages Claude writes for a rejected tool call, which are not always flagged with
+// is_error. A successful result can quote any of the patterns above from the edited file.
+const REJECTION_MESSAGES = [
+  /^The user doesn't want to proceed with this tool use/,
+  /^Claude requested permissions? to .* but you haven't granted it/
+];
+
+// Subagents (Task tool) write their sidechain to agent-<id>.jsonl next to the session
+const SUBAGENT_FILE_PREFIX = 'agent-';
+// Tools that start a subagent
+const SUBAGENT_TOOLS = ['Task', 'Agent'];
+// How Claude opens the summary a compacted (or, in older versions, continued) session starts with
+const COMPACT_SUMMARY_PREFIX = 'This session is being continued from a previous conversation';
+// Characters of a Bash command's output kept with its side effects
+const MAX_SIDE_EFFECT_OUTPUT = 2000;
+// Bytes of session files kept parsed in memory, least recently read dropped first
+const ENTRY_CACHE_BYTES = 64 * 1024 * 1024;
+
+export function isSubagentLogFile(filePath: string): boolean {
+  return path.basename(filePath).startsWith(SUBAGENT_FILE_PREFIX);
+}
+
+// A Task invocation and the turn it was made in, while subagent activity is matched to it
+interface SubagentInvocation {
+  run: SubagentRun;
+  turn: ConversationTurn;
+}
+
+// Sidechain entries of one subagent, in log order
+interface Sidechain {
+  agentId?: string;
+  file: string;
+  entries: ClaudeLogEntry[];
+}
 
 export class ClaudeLogParser {
-  private logDir: string;
-  private currentProjectPath: string;
-  private projectLogDir: string;
+  private projectPath: string;
+  private locator: ProjectLocator;
+  private location: Promise<ProjectLocation> | null = null;
+  private sessionIndex: SessionIndex | null = null;
+  // Parsed entries of recently read files by path, with the size and mtime they were read at
+  private entryCache: Map<string, { key: string; size: number; entries: ClaudeLogEntry[] }> = new Map();
+  // The index refresh running now, and the one queued to run after it
+  private indexRefresh: Promise<SessionIndexEntry[]> | null = null;
+  private nextIndexRefresh: Promise<SessionIndexEntry[]> | null = null;
+
+  constructor(options: ProjectOptions = {}) {
+    this.projectPath = path.resolve(options.projectPath || process.cwd());
+    this.locator = new ProjectLocator(this.projectPath, options.claudeDir);
+  }
 
-  constructor() {
-    // Claude logs are stored in ~/.claude/projects/
-    this.logDir = path.join(os.homedir(), '.claude', 'projects');
-    this.currentProjectPath = this.getCurrentProjectPath();
-    this.projectLogDir = path.join(this.logDir, this.currentProjectPath);
+  // Where this project's session logs are, looked up once
+  getProjectLocation(): Promise<ProjectLocation> {
+    if (!this.location) {
+      this.location = this.locator.locate();
+    }
+    return this.location;
   }
 
-  private getCurrentProjectPath(): string {
-    // Get current working directory and convert to project dir format
-    const cwd = process.cwd();
-    // Claude stores project paths with hyphens instead of special characters
-    // Characters replaced: / \ : _
-    // On Windows: C:\Users\Foo_Bar -> C--Users-Foo-Bar
-    // On Unix: /Users/foo_bar -> -Users-foo-bar
-    return cwd.replace(/[\/\\:_]/g, '-');
+  // Directory holding this project's session logs
+  async getProjectLogDir(): Promise<string> {
+    return (await this.getProjectLocation()).logDir;
+  }
+
+  private async getSessionIndex(): Promise<SessionIndex> {
+    if (!this.sessionIndex) {
+      this.sessionIndex = new SessionIndex(path.basename(await this.getProjectLogDir()));
+    }
+    return this.sessionIndex;
   }
 
   async getLatestLogFile(): Promise<string | null> {
     try {
-      const projectDirs = await fs.promises.readdir(this.logDir);
-      let allFiles: Array<{file: string, mtime: Date}> = [];
-      
-      // Filter to only the current project directory
-      const matchingDirs = projectDirs.filter(dir => dir === this.currentProjectPath);
-      
-      if (matchingDirs.length === 0) {
-        console.log(`No log directory found for current project path: ${this.currentProjectPath}`);
+      const location = await this.getProjectLocation();
+      if (!location.found) {
+        debug(describeProjectLocation(location));
         return null;
       }
-      
-      // Search through matching project directories
-      for (const projectDir of matchingDirs) {
-        const projectPath = path.join(this.logDir, projectDir);
-        try {
-          const stat = await fs.promises.stat(projectPath);
-          if (stat.isDirectory()) {
-            const files = await fs.promises.readdir(projectPath);
-            const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
-            
-            for (const file of jsonlFiles) {
-              const filePath = path.join(projectPath, file);
-              const fileStat = await fs.promises.stat(filePath);
-              allFiles.push({
-                file: filePath,
-                mtime: fileStat.mtime
-              });
-            }
-          }
-        } catch (error) {
-          // Skip directories we can't read
-          continue;
-        }
+
+      const allFiles: Array<{file: string, mtime: Date}> = [];
+      const files = await fs.promises.readdir(location.logDir);
+      for (const file of files.filter(f => f.endsWith('.jsonl'))) {
+        const filePath = path.join(location.logDir, file);
+        const fileStat = await fs.promises.stat(filePath);
+        allFiles.push({
+          file: filePath,
+          mtime: fileStat.mtime
+        });
       }
-      
+
       if (allFiles.length === 0) {
         return null;
       }
@@ -75,80 +135,151 @@ export class ClaudeLogParser {
     }
   }
 
-  async parseLogFile(filePath: string): Promise<FileChange[]> {
-    const content = await fs.promises.readFile(filePath, 'utf-8');
-    const lines = content.trim().split('\n');
-    const changes: FileChange[] = [];
+  // Stream and parse every entry of a session file. A file is read again only once its
+  // size or mtime changed, so the entries are shared and must not be modified.
+  private async readEntries(filePath: string): Promise<ClaudeLogEntry[]> {
+    const fileStat = await fs.promises.stat(filePath);
+    const key = `${fileStat.size}:${fileStat.mtimeMs}`;
+    const cached = this.entryCache.get(filePath);
+    if (cached) {
+      this.entryCache.delete(filePath);
+      if (cached.key === key) {
+        this.entryCache.set(filePath, cached);
+        return cached.entries;
+      }
+    }
+
+    const entries: ClaudeLogEntry[] = [];
 
-    for (const line of lines) {
+    for await (const { line } of readLines(filePath)) {
+      if (!line.trim()) {
+        continue;
+      }
       try {
-        const entry: ClaudeLogEntry = JSON.parse(line);
-        
-        // Check if this is an assistant message with tool_use content
-        if (entry.type === 'assistant' && entry.message?.content) {
-          const change = this.extractFileChange(entry);
-          if (change) {
-            changes.push(change);
-          }
-        }
+        entries.push(JSON.parse(line));
       } catch (error) {
         // Skip malformed lines
       }
     }
 
+    this.entryCache.set(filePath, { key, size: fileStat.size, entries });
+    let cachedBytes = [...this.entryCache.values()].reduce((total, file) => total + file.size, 0);
+    for (const [cachedPath, file] of this.entryCache) {
+      if (cachedBytes <= ENTRY_CACHE_BYTES || cachedPath === filePath) {
+        break;
+      }
+      this.entryCache.delete(cachedPath);
+      cachedBytes -= file.size;
+    }
+
+    return entries;
+  }
+
+  async parseLogFile(filePath: string): Promise<FileChange[]> {
+    const entries = await this.readEntries(filePath);
+    const changes: FileChange[] = [];
+
+    // tool_results arrive in later user entries, so index them before extracting changes
+    const toolResults = this.collectToolResults(entries);
+    // Subagent logs record the session that started them
+    const sessionId = (isSubagentLogFile(filePath) && entries.find(entry => entry.sessionId)?.sessionId)
+      || path.basename(filePath, '.jsonl');
+    const { abandoned } = this.conversationTree(entries.filter(entry => !entry.isSidechain));
+
+    for (const entry of entries) {
+      // Check if this is an assistant message with tool_use content
+      if (entry.type === 'assistant' && entry.message?.content) {
+        for (const change of this.extractAllFileChanges(entry, sessionId, toolResults)) {
+          const current = !entry.uuid || !abandoned.has(entry.uuid);
+          changes.push({ ...(current ? change : this.abandonChange(change)), sessionFile: filePath });
+        }
+      }
+    }
+
     return changes;
   }
 
-  private extractFileChange(entry: ClaudeLogEntry): FileChange | null {
-    const { timestamp } = entry;
+  // Index every tool_result by the id of the tool_use it answers
+  private collectToolResults(entries: ClaudeLogEntry[]): Map<string, ToolResult> {
+    const results = new Map<string, ToolResult>();
+
+    for (const entry of entries) {
+      if (entry.type !== 'user' || !entry.message?.content || !Array.isArray(entry.message.content)) {
+        continue;
+      }
 
-    // Look for tool_use in message content (only in array format)
-    if (entry.message?.content && Array.isArray(entry.message.content)) {
       for (const content of entry.message.content) {
-        if (content.type === 'tool_use') {
-          const toolName = content.name;
-          const input = content.input;
-
-          switch (toolName) {
-            case 'Write':
-              return {
-                id: `${timestamp}-write`,
-                timestamp,
-                type: 'write',
-                filePath: input?.file_path,
-                newContent: input?.content
-              };
-
-            case 'Edit':
-              return {
-                id: `${timestamp}-edit`,
-                timestamp,
-                type: 'edit',
-                filePath: input?.file_path,
-                changes: [{
-                  oldString: input?.old_string,
-                  newString: input?.new_string,
-                  replaceAll: input?.replace_all
-                }]
-              };
-
-            case 'MultiEdit':
-              return {
-                id: `${timestamp}-multiedit`,
-                timestamp,
-                type: 'edit',
-                filePath: input?.file_path,
-                changes: input?.edits
-              };
-
-            default:
-              continue;
-          }
+        if (content.type === 'tool_result' && content.tool_use_id) {
+          results.set(content.tool_use_id, {
+            toolUseId: content.tool_use_id,
+            isError: content.is_error === true,
+            text: this.extractToolResultText(content.content),
+            payload: entry.toolUseResult
+          });
         }
       }
     }
 
-    return null;
+    return results;
+  }
+
+  private extractToolResultText(content: any): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    if (Array.isArray(content)) {
+      return content
+        .filter(item => item && item.type === 'text' && item.text)
+        .map(item => item.text)
+        .join('\n');
+    }
+
+    return '';
+  }
+
+  // Decide whether a tool_use actually changed the file, based on its tool_result
+  private resolveChangeStatus(
+    toolUseId: string | undefined,
+    toolResults: Map<string, ToolResult>
+  ): { status: ChangeStatus; statusMessage?: string } {
+    const result = toolUseId ? toolResults.get(toolUseId) : undefined;
+    if (!result) {
+      return { status: 'pending' };
+    }
+
+    const message = result.text.replace(/<\/?tool_use_error>/g, '').trim();
+
+    const patterns = result.isError ? REJECTION_PATTERNS : REJECTION_MESSAGES;
+    if (patterns.some(pattern => pattern.test(message))) {
+      return { status: 'rejected', statusMessage: message };
+    }
+
+    if (result.isError) {
+      return { status: 'failed', statusMessage: message || 'Tool call failed' };
+    }
+
+    return { status: 'applied' };
+  }
+
+  // Pre-change file content recorded in the structured tool result (Edit: originalFile,
+  // MultiEdit: originalFileContents). Writes to new files are recorded with type 'create'.
+  private resolveOriginalContent(
+    toolUseId: string | undefined,
+    toolResults: Map<string, ToolResult>
+  ): { originalContent?: string; created: boolean } {
+    const payload = toolUseId ? toolResults.get(toolUseId)?.payload : undefined;
+    if (!payload || typeof payload !== 'object') {
+      return { created: false };
+    }
+
+    const created = payload.type === 'create';
+    const original = payload.originalFile ?? payload.originalFileContents;
+    if (typeof original === 'string') {
+      return { originalContent: original, created };
+    }
+
+    return { originalContent: created ? '' : undefined, created };
   }
 
   async getFileChanges(logFile?: string): Promise<FileChange[]> {
@@ -162,124 +293,348 @@ export class ClaudeLogParser {
 
   async getAllSessionMetadata(): Promise<SessionMetadata[]> {
     try {
-      // Check if project directory exists
-      const stat = await fs.promises.stat(this.projectLogDir);
-      if (!stat.isDirectory()) {
+      const location = await this.getProjectLocation();
+      if (!location.found) {
+        debug(describeProjectLocation(location));
         return [];
       }
 
-      const files = await fs.promises.readdir(this.projectLogDir);
-      const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
+      return this.sessionMetadata(await this.refreshSessionIndex());
+    } catch (error) {
+      console.error('Error reading session metadata:', error);
+      return [];
+    }
+  }
 
-      if (jsonlFiles.length === 0) {
-        return [];
+  // Conversations in the index, newest activity first. Subagent logs count toward the
+  // session that started them, files a conversation was resumed or compacted from toward
+  // the file it continues in.
+  private sessionMetadata(entries: SessionIndexEntry[]): SessionMetadata[] {
+    const subagentLogs = (sessionId: string) => entries.filter(entry => entry.parentSessionId === sessionId);
+    const links = this.linkContinuations(entries);
+    const continued = new Set([...links.values()].map(entry => entry.sessionId));
+
+    const sessions: SessionMetadata[] = entries
+      .filter(entry => !entry.parentSessionId && !continued.has(entry.sessionId))
+      .map(entry => {
+        const chain = this.conversationChain(entry, links);
+        const files = chain.flatMap(file => [file, ...subagentLogs(file.sessionId)]);
+        return {
+          sessionId: entry.sessionId,
+          sessionFile: entry.sessionFile,
+          timestamp: chain[0].timestamp || new Date().toISOString(),
+          mtime: Math.max(...files.map(file => this.lastActivity(file))),
+          userMessage: chain.find(file => file.userMessage !== 'No message')?.userMessage || 'No message',
+          fileCount: files.reduce((count, file) => count + file.fileCount, 0),
+          isLatest: false,
+          sessionIds: chain.map(file => file.sessionId)
+        };
+      });
+
+    // Sort by last activity (newest first), so the conversation you returned to and
+    // continued is the latest even if Claude touched older files since
+    sessions.sort((a, b) => b.mtime - a.mtime);
+
+    // Mark the latest session (the one most recently modified)
+    if (sessions.length > 0) {
+      sessions[0].isLatest = true;
+    }
+
+    return sessions;
+  }
+
+  // Bring the session index up to date, one refresh at a time. A running refresh may
+  // have missed what was appended since it started, so callers arriving meanwhile share
+  // one more refresh queued after it.
+  private refreshSessionIndex(): Promise<SessionIndexEntry[]> {
+    if (!this.indexRefresh) {
+      return this.startIndexRefresh();
+    }
+
+    if (!this.nextIndexRefresh) {
+      this.nextIndexRefresh = this.indexRefresh.catch(() => undefined).then(() => {
+        this.nextIndexRefresh = null;
+        return this.startIndexRefresh();
+      });
+    }
+    return this.nextIndexRefresh;
+  }
+
+  private startIndexRefresh(): Promise<SessionIndexEntry[]> {
+    const refresh: Promise<SessionIndexEntry[]> = this.updateSessionIndex().finally(() => {
+      if (this.indexRefresh === refresh) {
+        this.indexRefresh = null;
       }
+    });
+    this.indexRefresh = refresh;
+    return refresh;
+  }
 
-      const sessions: SessionMetadata[] = [];
+  // Unchanged files are only stat'ed, files that grew are parsed from where the last run
+  // stopped, and anything else (new or rewritten files) is parsed from the start.
+  // Entries are parsed into a copy, so entries handed out earlier never change.
+  private async updateSessionIndex(): Promise<SessionIndexEntry[]> {
+    const logDir = await this.getProjectLogDir();
+    const sessionIndex = await this.getSessionIndex();
+    const files = await fs.promises.readdir(logDir);
+    const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
+    const entries: SessionIndexEntry[] = [];
 
-      // Get metadata for each session
-      for (const file of jsonlFiles) {
-        const filePath = path.join(this.projectLogDir, file);
-        const metadata = await this.extractSessionMetadata(filePath);
-        if (metadata) {
-          sessions.push(metadata);
+    for (const file of jsonlFiles) {
+      const filePath = path.join(logDir, file);
+      const sessionId = path.basename(file, '.jsonl');
+
+      try {
+        const fileStat = await fs.promises.stat(filePath);
+        const mtime = fileStat.mtime.getTime();
+        let entry = await sessionIndex.get(sessionId);
+
+        if (entry && entry.size === fileStat.size && entry.mtime === mtime && entry.sessionFile === filePath) {
+          entries.push(entry);
+          continue;
         }
+
+        entry = entry && await this.canResumeIndex(entry, filePath, fileStat.size)
+          ? { ...entry, changes: [...entry.changes], subagentIds: [...entry.subagentIds] }
+          : this.createIndexEntry(sessionId, filePath);
+
+        await this.indexSessionFile(entry);
+        entry.size = fileStat.size;
+        entry.mtime = mtime;
+        await sessionIndex.set(entry);
+        entries.push(entry);
+      } catch (error) {
+        console.error(`Error indexing ${filePath}:`, error);
       }
+    }
+
+    await sessionIndex.retain(entries.map(entry => entry.sessionId));
+    await sessionIndex.save();
 
-      // Sort by file modification time (newest first)
-      // This ensures that sessions you return to and continue working on are marked as latest
-      sessions.sort((a, b) => b.mtime - a.mtime);
+    return entries;
+  }
+
+  // When a file's messages were last written. Claude appends summaries to older files,
+  // so the modification time is only a fallback.
+  private lastActivity(entry: SessionIndexEntry): number {
+    const time = entry.lastTimestamp ? new Date(entry.lastTimestamp).getTime() : NaN;
+    return isNaN(time) ? entry.mtime : time;
+  }
 
-      // Mark the latest session (the one most recently modified)
-      if (sessions.length > 0) {
-        sessions[0].isLatest = true;
+  // The file each continuation file picks up from, by session id. A resumed or compacted
+  // conversation's first message continues from the last message of the previous file.
+  private linkContinuations(entries: SessionIndexEntry[]): Map<string, SessionIndexEntry> {
+    const files = entries.filter(entry => !entry.parentSessionId && entry.lastUuid);
+    const byLastUuid = new Map(files.map(entry => [entry.lastUuid!, entry]));
+    const links = new Map<string, SessionIndexEntry>();
+
+    for (const entry of files) {
+      const previous = entry.continuesFrom ? byLastUuid.get(entry.continuesFrom) : undefined;
+      if (previous && previous !== entry) {
+        links.set(entry.sessionId, previous);
       }
+    }
 
-      return sessions;
-    } catch (error) {
-      console.error('Error reading session metadata:', error);
-      return [];
+    return links;
+  }
+
+  // A file and the files it continues, oldest first
+  private conversationChain(entry: SessionIndexEntry, links: Map<string, SessionIndexEntry>): SessionIndexEntry[] {
+    const chain = [entry];
+    for (let previous = links.get(entry.sessionId); previous && !chain.includes(previous); previous = links.get(previous.sessionId)) {
+      chain.unshift(previous);
+    }
+    return chain;
+  }
+
+  private createIndexEntry(sessionId: string, sessionFile: string): SessionIndexEntry {
+    return {
+      sessionId,
+      sessionFile,
+      offset: 0,
+      size: 0,
+      mtime: 0,
+      tailHash: '',
+      timestamp: '',
+      userMessage: 'No message',
+      fileCount: 0,
+      turnCount: 0,
+      changes: [],
+      subagentIds: []
+    };
+  }
+
+  // A file can be parsed incrementally if it only grew since it was indexed
+  private async canResumeIndex(entry: SessionIndexEntry, filePath: string, size: number): Promise<boolean> {
+    if (entry.sessionFile !== filePath || size < entry.offset) {
+      return false;
     }
+    return (await this.hashTail(filePath, entry.offset)) === entry.tailHash;
   }
 
-  private async extractSessionMetadata(filePath: string): Promise<SessionMetadata | null> {
+  // Hash of the (up to) 256 bytes before offset
+  private async hashTail(filePath: string, offset: number): Promise<string> {
+    const length = Math.min(256, offset);
+    const buffer = Buffer.alloc(length);
+    const handle = await fs.promises.open(filePath, 'r');
+
     try {
-      // Get file stats for mtime (critical for determining latest session)
-      const fileStat = await fs.promises.stat(filePath);
+      await handle.read(buffer, 0, length, offset - length);
+    } finally {
+      await handle.close();
+    }
 
-      const content = await fs.promises.readFile(filePath, 'utf-8');
-      const lines = content.trim().split('\n');
+    return createHash('sha1').update(buffer).digest('hex');
+  }
 
-      if (lines.length === 0) {
-        return null;
+  // Parse a session file from entry.offset into the entry
+  private async indexSessionFile(entry: SessionIndexEntry): Promise<void> {
+    for await (const { line, end, complete } of readLines(entry.sessionFile, entry.offset)) {
+      let logEntry: ClaudeLogEntry | null = null;
+      try {
+        logEntry = line.trim() ? JSON.parse(line) : null;
+      } catch (error) {
+        if (!complete) {
+          // Claude is still writing this line, pick it up next time
+          break;
+        }
+        // Skip malformed lines
       }
 
-      // Extract session ID from filename (e.g., "abc-def-ghi.jsonl" -> "abc-def-ghi")
-      const filename = path.basename(filePath);
-      const sessionId = filename.replace('.jsonl', '');
+      if (logEntry) {
+        this.indexLogEntry(entry, logEntry);
+      }
+      entry.offset = end;
+    }
 
-      // Find first user message and timestamp
-      let firstUserMessage = 'No message';
-      let timestamp = '';
-      let fileCount = 0;
+    entry.tailHash = await this.hashTail(entry.sessionFile, entry.offset);
+  }
 
-      for (const line of lines) {
-        try {
-          const entry: ClaudeLogEntry = JSON.parse(line);
+  private indexLogEntry(entry: SessionIndexEntry, logEntry: ClaudeLogEntry): void {
+    if (!entry.timestamp && logEntry.timestamp) {
+      entry.timestamp = logEntry.timestamp;
+    }
 
-          // Get first user message
-          if (!timestamp && entry.timestamp) {
-            timestamp = entry.timestamp;
-          }
+    if (!entry.parentSessionId && logEntry.sessionId && isSubagentLogFile(entry.sessionFile)) {
+      entry.parentSessionId = logEntry.sessionId;
+    }
 
-          // Fixed: Check if still equal to 'No message' instead of !firstUserMessage
-          if (entry.type === 'user' && firstUserMessage === 'No message' && entry.message?.content) {
-            // Handle both string and array formats for message.content
-            if (typeof entry.message.content === 'string') {
-              // Direct string format: {"message":{"content":"user question..."}}
-              firstUserMessage = entry.message.content.substring(0, 100);
-            } else if (Array.isArray(entry.message.content)) {
-              // Array format: {"message":{"content":[{"type":"text","text":"..."}]}}
-              for (const content of entry.message.content) {
-                if (content.type === 'text' && content.text) {
-                  firstUserMessage = content.text.substring(0, 100);
-                  break;
-                }
-              }
-            }
-          }
+    if (!logEntry.isSidechain) {
+      // A continuation file starts from a message in another file: its first message's
+      // parent, or else the leaf of the summary it opens with
+      if (!entry.lastUuid) {
+        const parentUuid = logEntry.uuid ? this.parentUuid(logEntry) : null;
+        if (parentUuid) {
+          entry.continuesFrom = parentUuid;
+        } else if (logEntry.type === 'summary' && logEntry.leafUuid && !entry.continuesFrom) {
+          entry.continuesFrom = logEntry.leafUuid;
+        }
+      }
+      if (logEntry.uuid) {
+        entry.lastUuid = logEntry.uuid;
+      }
+    }
+    if ((logEntry.type === 'user' || logEntry.type === 'assistant') && logEntry.timestamp) {
+      entry.lastTimestamp = logEntry.timestamp;
+    }
 
-          // Count file changes (only in array format content)
-          if (entry.type === 'assistant' && entry.message?.content && Array.isArray(entry.message.content)) {
-            for (const content of entry.message.content) {
-              if (content.type === 'tool_use' &&
-                  (content.name === 'Write' || content.name === 'Edit' || content.name === 'MultiEdit')) {
-                fileCount++;
-              }
-            }
-          }
-        } catch (e) {
-          continue;
+    // A subagent's prompt or a compaction summary is not a turn of the conversation
+    if (logEntry.type === 'user' && logEntry.message?.content && !logEntry.isSidechain && !this.isCompactSummary(logEntry)) {
+      // Get first user message
+      if (entry.userMessage === 'No message') {
+        const message = this.extractUserMessage(logEntry);
+        if (message !== 'No message') {
+          entry.userMessage = message.substring(0, 100);
         }
       }
 
-      return {
-        sessionId,
-        sessionFile: filePath,
-        timestamp: timestamp || new Date().toISOString(),
-        mtime: fileStat.mtime.getTime(),  // Use file modification time
-        userMessage: firstUserMessage,
-        fileCount,
-        isLatest: false
-      };
+      if (!this.isToolResultEntry(logEntry)) {
+        entry.turnCount++;
+      }
+    }
+
+    if (logEntry.type === 'assistant' && logEntry.message?.content) {
+      // Statuses need later tool_results, the summary only records what was attempted
+      for (const change of this.extractAllFileChanges(logEntry, entry.sessionId, new Map())) {
+        entry.changes.push({
+          id: change.id,
+          type: change.type,
+          filePath: change.filePath,
+          newFilePath: change.newFilePath,
+          timestamp: change.timestamp,
+          turnNumber: entry.turnCount
+        });
+      }
+      entry.fileCount = entry.changes.length;
+
+      if (!logEntry.isSidechain) {
+        entry.subagentIds.push(...this.extractSubagentRuns(logEntry, new Map()).map(run => run.id));
+      }
+    }
+  }
+
+  // Session a change (tool_use) id belongs to, looked up in the session index
+  async findSessionForChange(changeId: string): Promise<string | null> {
+    const entries = await this.refreshSessionIndex();
+    const entry = entries.find(e => e.changes.some(change => change.id === changeId));
+    return entry ? (entry.parentSessionId || entry.sessionId) : null;
+  }
+
+  // Session a subagent (its Task tool_use id) was started in, looked up in the session index
+  async findSessionForSubagent(subagentId: string): Promise<string | null> {
+    const entries = await this.refreshSessionIndex();
+    const entry = entries.find(e => e.subagentIds.includes(subagentId));
+    return entry ? (entry.parentSessionId || entry.sessionId) : null;
+  }
+
+  // Changes other sessions made to the given files after a point in time, in log order.
+  // sessionIds are the files of the conversation asking. Only sessions whose index shows
+  // such a change are parsed.
+  async getLaterChanges(sessionIds: string[], filePaths: string[], since: string): Promise<FileChange[]> {
+    const files = new Set(filePaths.map(filePath => path.resolve(filePath)));
+    const sinceTime = new Date(since).getTime();
+    const isLater = (change: { filePath: string; timestamp: string }) =>
+      files.has(path.resolve(change.filePath)) && new Date(change.timestamp).getTime() > sinceTime;
+
+    let entries: SessionIndexEntry[];
+    try {
+      entries = await this.refreshSessionIndex();
     } catch (error) {
-      console.error(`Error extracting metadata from ${filePath}:`, error);
-      return null;
+      console.error('Error reading session index:', error);
+      return [];
     }
+
+    const changes: FileChange[] = [];
+    for (const entry of entries) {
+      if (sessionIds.includes(entry.parentSessionId || entry.sessionId) || !entry.changes.some(isLater)) {
+        continue;
+      }
+      const sessionChanges = await this.parseLogFile(entry.sessionFile);
+      changes.push(...sessionChanges.filter(isLater));
+    }
+
+    return changes.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  // Conversations with a change to the file, renames to it included, as listed by
+  // getAllSessionMetadata. Found through the session index without parsing any session.
+  async getSessionsForFile(filePath: string): Promise<string[]> {
+    const file = path.resolve(this.projectPath, filePath);
+    const touches = (change: { filePath: string; newFilePath?: string }) =>
+      path.resolve(change.filePath) === file || (!!change.newFilePath && path.resolve(change.newFilePath) === file);
+
+    const entries = await this.refreshSessionIndex();
+    const sessionIds = new Set(entries
+      .filter(entry => entry.changes.some(touches))
+      .map(entry => entry.parentSessionId || entry.sessionId));
+
+    return this.sessionMetadata(entries)
+      .filter(session => session.sessionIds.some(sessionId => sessionIds.has(sessionId)))
+      .map(session => session.sessionId);
   }
 
   async getSessionChanges(sessionId: string): Promise<FileChange[]> {
-    const filePath = path.join(this.projectLogDir, `${sessionId}.jsonl`);
+    const filePath = path.join(await this.getProjectLogDir(), `${sessionId}.jsonl`);
 
     try {
       await fs.promises.access(filePath);
@@ -307,15 +662,13 @@ export class ClaudeLogParser {
 
   private async getFirstUserMessage(filePath: string): Promise<string> {
     try {
-      const content = await fs.promises.readFile(filePath, 'utf-8');
-      const lines = content.trim().split('\n');
-
-      for (const line of lines) {
+      // Stream the file, the first user message is usually within the first few lines
+      for await (const { line } of readLines(filePath)) {
         try {
           const entry: ClaudeLogEntry = JSON.parse(line);
 
           // Find first user message with text content
-          if (entry.type === 'user' && entry.message?.content) {
+          if (entry.type === 'user' && entry.message?.content && !this.isCompactSummary(entry)) {
             // Handle both string and array formats
             if (typeof entry.message.content === 'string' && entry.message.content.trim()) {
               return entry.message.content;
@@ -338,9 +691,10 @@ export class ClaudeLogParser {
     }
   }
 
-  // Parse session into conversation turns
+  // Parse a session into conversation turns. A session that was resumed or compacted
+  // into a new file is read together with the files it continues.
   async getSessionWithTurns(sessionId: string): Promise<SessionWithTurns> {
-    const filePath = path.join(this.projectLogDir, `${sessionId}.jsonl`);
+    const filePath = path.join(await this.getProjectLogDir(), `${sessionId}.jsonl`);
 
     try {
       await fs.promises.access(filePath);
@@ -348,50 +702,182 @@ export class ClaudeLogParser {
       throw new Error(`Session file not found: ${sessionId}`);
     }
 
-    const fileStat = await fs.promises.stat(filePath);
-    const content = await fs.promises.readFile(filePath, 'utf-8');
-    const lines = content.trim().split('\n');
+    const indexEntries = await this.refreshSessionIndex();
+    return this.parseConversation(sessionId, filePath, indexEntries, this.sessionMetadata(indexEntries));
+  }
 
-    // Determine if this is the latest session
-    const sessions = await this.getAllSessionMetadata();
-    const isLatest = sessions.length > 0 && sessions[0].sessionId === sessionId;
+  // Several sessions parsed into turns against one refresh of the index, for going over
+  // many at once. Sessions that cannot be read are left out.
+  async getSessionsWithTurns(sessionIds: string[]): Promise<SessionWithTurns[]> {
+    const logDir = await this.getProjectLogDir();
+    const indexEntries = await this.refreshSessionIndex();
+    const sessions = this.sessionMetadata(indexEntries);
+    const parsed: SessionWithTurns[] = [];
 
-    // Parse all entries with their UUIDs
-    interface ParsedEntry extends ClaudeLogEntry {
-      uuid?: string;
-      parentUuid?: string;
+    for (const sessionId of sessionIds) {
+      try {
+        parsed.push(await this.parseConversation(sessionId, path.join(logDir, `${sessionId}.jsonl`), indexEntries, sessions));
+      } catch (error) {
+        console.error(`Error parsing session ${sessionId}:`, error);
+      }
     }
 
-    const entries: ParsedEntry[] = [];
-    for (const line of lines) {
-      try {
-        const entry = JSON.parse(line) as ParsedEntry;
-        entries.push(entry);
-      } catch (e) {
-        continue;
+    return parsed;
+  }
+
+  private async parseConversation(
+    sessionId: string,
+    filePath: string,
+    indexEntries: SessionIndexEntry[],
+    sessions: SessionMetadata[]
+  ): Promise<SessionWithTurns> {
+    const fileStat = await fs.promises.stat(filePath);
+    const isLatest = sessions.length > 0 && sessions[0].sessionId === sessionId;
+
+    const files = this.getConversationFiles(sessionId, filePath, indexEntries);
+    const turns: ConversationTurn[] = [];
+    const abandonedBranches: ConversationBranch[] = [];
+    const boundaries: ConversationBoundary[] = [];
+    // Changes a continuation file repeats from the history it copied
+    const seenChangeIds = new Set<string>();
+    let firstTimestamp: string | null = null;
+
+    for (const [index, file] of files.entries()) {
+      const part = await this.parseSessionFile(file.sessionId, file.sessionFile, isLatest, indexEntries);
+      firstTimestamp = firstTimestamp || part.timestamp;
+
+      if (index > 0 && !part.startsCompacted) {
+        boundaries.push({
+          kind: 'resume',
+          sessionId: file.sessionId,
+          timestamp: part.timestamp || '',
+          summary: part.summary,
+          beforeTurnId: null
+        });
+      }
+      boundaries.push(...part.boundaries);
+
+      for (const turn of part.turns) {
+        turn.fileChanges = turn.fileChanges.filter(change => !seenChangeIds.has(change.id));
+        turn.fileChanges.forEach(change => seenChangeIds.add(change.id));
+        if (this.hasActivity(turn)) {
+          turns.push(turn);
+        }
       }
+      abandonedBranches.push(...part.abandonedBranches);
+    }
+
+    // Place each boundary before the first turn that started after it
+    for (const boundary of boundaries) {
+      const time = new Date(boundary.timestamp).getTime();
+      boundary.beforeTurnId = turns.find(turn => new Date(turn.timestamp).getTime() >= time)?.id || null;
+    }
+
+    return {
+      sessionId,
+      sessionFile: filePath,
+      sessionIds: files.map(file => file.sessionId),
+      timestamp: firstTimestamp || new Date().toISOString(),
+      mtime: fileStat.mtime.getTime(),
+      isLatest,
+      turns,
+      abandonedBranches,
+      boundaries
+    };
+  }
+
+  // The files of the logical conversation a session file ends, oldest first
+  private getConversationFiles(
+    sessionId: string,
+    sessionFile: string,
+    entries: SessionIndexEntry[]
+  ): Array<{ sessionId: string; sessionFile: string }> {
+    const entry = entries.find(e => e.sessionId === sessionId);
+    if (!entry) {
+      return [{ sessionId, sessionFile }];
     }
+    return this.conversationChain(entry, this.linkContinuations(entries));
+  }
 
-    // Build conversation turns
+  // Turns of one session file
+  private async parseSessionFile(
+    sessionId: string,
+    filePath: string,
+    isLatest: boolean,
+    indexEntries: SessionIndexEntry[]
+  ): Promise<{
+    timestamp: string | null;
+    turns: ConversationTurn[];
+    abandonedBranches: ConversationBranch[];
+    boundaries: ConversationBoundary[];
+    summary?: string;  // Summary entry the file starts with
+    startsCompacted: boolean;  // The file opens with a compaction summary
+  }> {
+    const allEntries = await this.readEntries(filePath);
+    // Sidechain entries are a subagent's own conversation, attributed to the Task call
+    // that started it below rather than to whichever turn is current
+    const entries = allEntries.filter(entry => !entry.isSidechain);
+
+    const toolResults = this.collectToolResults(entries);
+    const tree = this.conversationTree(entries);
+
+    // Build conversation turns. Turns without changes of their own are kept until
+    // subagent changes have been attributed.
     const turns: ConversationTurn[] = [];
-    let currentTurn: ConversationTurn | null = null;
+    const invocations: SubagentInvocation[] = [];
+    // The turn each entry belongs to, so entries continue the turn of the message they
+    // follow even when a rewound branch is interleaved with the current one
+    const turnOf = new Map<string, ConversationTurn>();
+    // Turns whose first entry is on an abandoned branch, with that entry's uuid
+    const abandonedTurns = new Map<ConversationTurn, string>();
+    const abandonedSubagents = new Set<string>();
+    let lastTurn: ConversationTurn | null = null;
     let turnCounter = 0;
+    const boundaries: ConversationBoundary[] = [];
+    const summary = allEntries.find(entry => entry.type === 'summary' && entry.summary)?.summary;
+    const firstPrompt = entries.find(entry => entry.type === 'user' && !this.isToolResultEntry(entry));
+    const startsCompacted = !!firstPrompt && this.isCompactSummary(firstPrompt);
 
     for (const entry of entries) {
+      const parentUuid = this.parentUuid(entry);
+      let currentTurn: ConversationTurn | null = (parentUuid && turnOf.get(parentUuid)) || lastTurn;
+      const abandoned = !!entry.uuid && tree.abandoned.has(entry.uuid);
+
+      // A compaction replaces the history with a summary, which is not a prompt: the
+      // conversation goes on in the same turn
+      if (entry.type === 'system' && entry.subtype === 'compact_boundary') {
+        boundaries.push({
+          kind: 'compaction',
+          sessionId,
+          timestamp: entry.timestamp || '',
+          trigger: entry.compactMetadata?.trigger,
+          beforeTurnId: null
+        });
+      } else if (entry.type === 'user' && this.isCompactSummary(entry)) {
+        const boundary = boundaries[boundaries.length - 1];
+        if (boundary && boundary.summary === undefined) {
+          boundary.summary = this.extractUserMessage(entry);
+        } else {
+          // Older versions compacted into a new file that starts with the summary
+          boundaries.push({
+            kind: 'compaction',
+            sessionId,
+            timestamp: entry.timestamp || '',
+            summary: this.extractUserMessage(entry),
+            beforeTurnId: null
+          });
+        }
+      }
+
       // Start a new turn when we see a REAL user message (not tool_result)
       if (entry.type === 'user') {
         // Check if this is an actual human message or a tool_result
         const isToolResult = this.isToolResultEntry(entry);
 
-        if (!isToolResult) {
-          // Save previous turn if it has file changes
-          if (currentTurn && currentTurn.fileChanges.length > 0) {
-            turns.push(currentTurn);
-          }
-
+        if (!isToolResult && !this.isCompactSummary(entry)) {
           turnCounter++;
           const userMessage = this.extractUserMessage(entry);
-          console.log(`Turn ${turnCounter} user message:`, userMessage.substring(0, 50) + '...');
+          debug(`Turn ${turnCounter} user message:`, userMessage.substring(0, 50) + '...');
 
           currentTurn = {
             id: `${sessionId}-turn-${turnCounter}`,
@@ -402,17 +888,24 @@ export class ClaudeLogParser {
             fileChanges: [],
             isLatestSession: isLatest
           };
+          turns.push(currentTurn);
+          lastTurn = currentTurn;
+          if (abandoned) {
+            abandonedTurns.set(currentTurn, entry.uuid!);
+          }
         }
         // If it's a tool_result, we just continue with the current turn
       }
 
       // Process assistant messages: extract file changes AND text content
       if (entry.type === 'assistant' && entry.message?.content && Array.isArray(entry.message.content)) {
-        const changes = this.extractAllFileChanges(entry, currentTurn?.id || `${sessionId}-turn-0`, isLatest);
+        const changes = this.extractAllFileChanges(entry, sessionId, toolResults, currentTurn?.id || `${sessionId}-turn-0`);
         const assistantText = this.extractAssistantText(entry);
+        const subagents = this.extractSubagentRuns(entry, toolResults);
+        const sideEffects = this.extractSideEffects(entry, toolResults);
 
         // If no turn exists yet, create a default turn for early content
-        if (!currentTurn && (changes.length > 0 || assistantText)) {
+        if (!currentTurn && (changes.length > 0 || assistantText || subagents.length > 0 || sideEffects.length > 0)) {
           turnCounter++;
           currentTurn = {
             id: `${sessionId}-turn-${turnCounter}`,
@@ -423,12 +916,29 @@ export class ClaudeLogParser {
             fileChanges: [],
             isLatestSession: isLatest
           };
+          turns.push(currentTurn);
+          lastTurn = currentTurn;
+          if (abandoned) {
+            abandonedTurns.set(currentTurn, entry.uuid!);
+          }
         }
 
         if (currentTurn) {
           // Add file changes
           if (changes.length > 0) {
-            currentTurn.fileChanges.push(...changes);
+            const turnId = currentTurn.id;
+            currentTurn.fileChanges.push(...changes.map(change => ({
+              ...(abandoned ? this.abandonChange(change) : change),
+              turnId,
+              sessionFile: filePath,
+              isLatestSession: isLatest
+            })));
+          }
+          if (sideEffects.length > 0) {
+            currentTurn.sideEffects = [
+              ...(currentTurn.sideEffects || []),
+              ...sideEffects.map(effect => abandoned ? { ...effect, status: 'abandoned' as const } : effect)
+            ];
           }
           // Append assistant text (consolidate multiple assistant messages)
           if (assistantText) {
@@ -438,28 +948,300 @@ export class ClaudeLogParser {
               currentTurn.assistantMessage = assistantText;
             }
           }
+          const turn = currentTurn;
+          invocations.push(...subagents.map(run => ({ run, turn })));
+          if (abandoned) {
+            subagents.forEach(run => abandonedSubagents.add(run.id));
+          }
         }
       }
+
+      if (entry.uuid && currentTurn) {
+        turnOf.set(entry.uuid, currentTurn);
+      }
     }
 
-    // Don't forget the last turn
-    if (currentTurn && currentTurn.fileChanges.length > 0) {
-      turns.push(currentTurn);
+    const sidechains = [
+      ...this.groupSidechains(allEntries.filter(entry => entry.isSidechain), filePath),
+      ...await this.readSubagentLogs(sessionId, indexEntries)
+    ];
+    this.attachSubagents(sessionId, sidechains, turns, invocations, isLatest);
+
+    // What subagents of an abandoned Task call did is abandoned with it
+    for (const turn of turns) {
+      turn.fileChanges = turn.fileChanges.map(change =>
+        change.subagentId && abandonedSubagents.has(change.subagentId) ? this.abandonChange(change) : change);
     }
 
-    // Get first timestamp from entries
-    const firstTimestamp = entries.find(e => e.timestamp)?.timestamp || new Date().toISOString();
+    // Turns whose prompt was rewound or edited away, per branch they were on
+    const branches = new Map<string, ConversationBranch>();
+    for (const turn of turns.filter(turn => abandonedTurns.has(turn) && this.hasActivity(turn))) {
+      const branchId = tree.abandoned.get(abandonedTurns.get(turn)!)!;
+      let branch = branches.get(branchId);
+      if (!branch) {
+        const forkUuid = tree.forks.get(branchId);
+        branch = {
+          id: branchId,
+          forkTurnId: (forkUuid && turnOf.get(forkUuid)?.id) || null,
+          timestamp: turn.timestamp,
+          turns: []
+        };
+        branches.set(branchId, branch);
+      }
+      branch.turns.push(turn);
+    }
 
     return {
-      sessionId,
-      sessionFile: filePath,
-      timestamp: firstTimestamp,
-      mtime: fileStat.mtime.getTime(),
-      isLatest,
-      turns
+      timestamp: entries.find(e => e.timestamp)?.timestamp || null,
+      turns: turns.filter(turn => !abandonedTurns.has(turn) && this.hasActivity(turn)),
+      abandonedBranches: [...branches.values()],
+      boundaries,
+      summary,
+      startsCompacted
     };
   }
 
+  // Whether a turn changed anything: files, or through Bash side effects
+  private hasActivity(turn: ConversationTurn): boolean {
+    return turn.fileChanges.length > 0 || (turn.sideEffects?.length || 0) > 0;
+  }
+
+  // The user entry a compaction summarized the history into
+  private isCompactSummary(entry: ClaudeLogEntry): boolean {
+    return entry.isCompactSummary === true ||
+      (entry.type === 'user' && this.extractUserMessage(entry).startsWith(COMPACT_SUMMARY_PREFIX));
+  }
+
+  // The entry an entry follows. After compaction the chain continues through
+  // logicalParentUuid.
+  private parentUuid(entry: ClaudeLogEntry): string | null {
+    return entry.parentUuid || entry.logicalParentUuid || null;
+  }
+
+  // Claude logs every message with its parent's uuid, so rewinding the conversation or
+  // editing a prompt starts a new branch next to the old one. The current branch is the
+  // path from the last entry back to the root; entries forking off it were abandoned.
+  // Returns the abandoned entries with the first entry of their branch, and for each
+  // branch the entry on the current path it forked from.
+  private conversationTree(entries: ClaudeLogEntry[]): {
+    abandoned: Map<string, string>;
+    forks: Map<string, string>;
+  } {
+    const abandoned = new Map<string, string>();
+    const forks = new Map<string, string>();
+    const byUuid = new Map<string, ClaudeLogEntry>();
+    for (const entry of entries) {
+      if (entry.uuid) {
+        byUuid.set(entry.uuid, entry);
+      }
+    }
+
+    const leaf = [...entries].reverse().find(entry => entry.uuid);
+    if (!leaf) {
+      // Old logs without uuids are one linear conversation
+      return { abandoned, forks };
+    }
+
+    const current = new Set<string>();
+    for (let entry: ClaudeLogEntry | undefined = leaf; entry?.uuid && !current.has(entry.uuid);) {
+      current.add(entry.uuid);
+      const parentUuid = this.parentUuid(entry);
+      entry = parentUuid ? byUuid.get(parentUuid) : undefined;
+    }
+
+    // Branch of every entry off the current path: the entry that forked, or null when its
+    // chain never meets the current path (e.g. history from before a resume), which is
+    // not treated as abandoned
+    const resolved = new Map<string, string | null>();
+    for (const entry of entries) {
+      if (!entry.uuid || current.has(entry.uuid) || resolved.has(entry.uuid)) {
+        continue;
+      }
+
+      const chain: string[] = [];
+      let branchId: string | null = null;
+      let node: ClaudeLogEntry | undefined = entry;
+      while (node?.uuid) {
+        if (resolved.has(node.uuid)) {
+          branchId = resolved.get(node.uuid)!;
+          break;
+        }
+        if (chain.includes(node.uuid)) {
+          break;
+        }
+        chain.push(node.uuid);
+        const parentUuid = this.parentUuid(node);
+        if (parentUuid && current.has(parentUuid)) {
+          branchId = node.uuid;
+          forks.set(node.uuid, parentUuid);
+          break;
+        }
+        node = parentUuid ? byUuid.get(parentUuid) : undefined;
+      }
+
+      for (const uuid of chain) {
+        resolved.set(uuid, branchId);
+        if (branchId) {
+          abandoned.set(uuid, branchId);
+        }
+      }
+    }
+
+    return { abandoned, forks };
+  }
+
+  private abandonChange(change: FileChange): FileChange {
+    return {
+      ...change,
+      status: 'abandoned',
+      statusMessage: 'Made on a conversation branch that was later rewound or edited away'
+    };
+  }
+
+  // Task (subagent) calls in an assistant entry. The tool result records the agent id
+  // the subagent logged its sidechain under.
+  private extractSubagentRuns(entry: ClaudeLogEntry, toolResults: Map<string, ToolResult>): SubagentRun[] {
+    const runs: SubagentRun[] = [];
+    if (!entry.message?.content || !Array.isArray(entry.message.content)) {
+      return runs;
+    }
+
+    for (const content of entry.message.content) {
+      if (content.type !== 'tool_use' || !SUBAGENT_TOOLS.includes(content.name || '') || !content.id) {
+        continue;
+      }
+      const agentId = toolResults.get(content.id)?.payload?.agentId;
+      runs.push({
+        id: content.id,
+        agentId: typeof agentId === 'string' ? agentId : undefined,
+        description: content.input?.description || '',
+        prompt: content.input?.prompt || '',
+        subagentType: content.input?.subagent_type,
+        timestamp: entry.timestamp || '',
+        changeIds: []
+      });
+    }
+
+    return runs;
+  }
+
+  // Sidechain entries of the session's agent-*.jsonl logs, found through the index
+  private async readSubagentLogs(sessionId: string, indexEntries: SessionIndexEntry[]): Promise<Sidechain[]> {
+    const sidechains: Sidechain[] = [];
+
+    for (const entry of indexEntries) {
+      if (entry.parentSessionId === sessionId) {
+        const entries = await this.readEntries(entry.sessionFile);
+        sidechains.push(...this.groupSidechains(entries, entry.sessionFile));
+      }
+    }
+
+    return sidechains;
+  }
+
+  // Split sidechain entries into one run per subagent: by agent id where logged, else by
+  // following parentUuid back to the entry that started the sidechain
+  private groupSidechains(entries: ClaudeLogEntry[], file: string): Sidechain[] {
+    const sidechains = new Map<string, Sidechain>();
+    const sidechainOf = new Map<string, string>();
+
+    entries.forEach((entry, index) => {
+      const key = entry.agentId
+        || (entry.parentUuid && sidechainOf.get(entry.parentUuid))
+        || entry.uuid
+        || `${file}:${index}`;
+      if (entry.uuid) {
+        sidechainOf.set(entry.uuid, key);
+      }
+
+      let sidechain = sidechains.get(key);
+      if (!sidechain) {
+        sidechain = { agentId: entry.agentId, file, entries: [] };
+        sidechains.set(key, sidechain);
+      }
+      sidechain.entries.push(entry);
+    });
+
+    return [...sidechains.values()];
+  }
+
+  // Add each subagent's changes to the turn of the Task call that started it, matched by
+  // agent id, then by prompt, then by time
+  private attachSubagents(
+    sessionId: string,
+    sidechains: Sidechain[],
+    turns: ConversationTurn[],
+    invocations: SubagentInvocation[],
+    isLatest: boolean
+  ): void {
+    const matched = new Set<SubagentInvocation>();
+
+    for (const sidechain of sidechains) {
+      const start = sidechain.entries.find(entry => entry.timestamp)?.timestamp || '';
+      const firstPrompt = sidechain.entries.find(entry => entry.type === 'user' && !this.isToolResultEntry(entry));
+      const prompt = firstPrompt ? this.extractUserMessage(firstPrompt).trim() : '';
+      const open = invocations.filter(invocation => !matched.has(invocation));
+
+      let invocation = (sidechain.agentId && open.find(i => i.run.agentId === sidechain.agentId))
+        || open.find(i => prompt && i.run.prompt.trim() === prompt)
+        || open.filter(i => i.run.timestamp <= start).pop();
+
+      if (!invocation) {
+        // A subagent whose Task call is not in the log: attribute it to the turn it ran in
+        const turn = turns.filter(t => t.timestamp <= start).pop() || turns[turns.length - 1];
+        if (!turn) {
+          debug(`Skipping subagent activity in ${sidechain.file}: no turn to attribute it to`);
+          continue;
+        }
+        invocation = {
+          turn,
+          run: {
+            id: `${turn.id}-subagent-${sidechain.agentId || invocations.length + 1}`,
+            agentId: sidechain.agentId,
+            description: 'Subagent',
+            prompt,
+            timestamp: start,
+            changeIds: []
+          }
+        };
+        invocations.push(invocation);
+      }
+      matched.add(invocation);
+
+      const { run, turn } = invocation;
+      const toolResults = this.collectToolResults(sidechain.entries);
+      for (const entry of sidechain.entries) {
+        if (entry.type !== 'assistant') {
+          continue;
+        }
+        const changes = this.extractAllFileChanges(entry, sessionId, toolResults).map(change => ({
+          ...change,
+          turnId: turn.id,
+          subagentId: run.id,
+          sessionFile: sidechain.file,
+          isLatestSession: isLatest
+        }));
+        turn.fileChanges.push(...changes);
+        run.changeIds.push(...changes.map(change => change.id));
+
+        const sideEffects = this.extractSideEffects(entry, toolResults).map(effect => ({ ...effect, subagentId: run.id }));
+        if (sideEffects.length > 0) {
+          turn.sideEffects = [...(turn.sideEffects || []), ...sideEffects];
+        }
+      }
+    }
+
+    // Subagents with changes, listed under their turn with its changes in time order
+    for (const turn of turns) {
+      const runs = invocations.filter(i => i.turn === turn && i.run.changeIds.length > 0).map(i => i.run);
+      if (runs.length > 0) {
+        turn.subagents = runs;
+        turn.fileChanges.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      }
+      turn.sideEffects?.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    }
+  }
+
   // Check if a user entry is actually a tool_result (system response) rather than human message
   private isToolResultEntry(entry: ClaudeLogEntry): boolean {
     if (!entry.message?.content) {
@@ -535,7 +1317,20 @@ export class ClaudeLogParser {
     return '';
   }
 
-  private extractAllFileChanges(entry: ClaudeLogEntry, turnId: string, isLatestSession: boolean): FileChange[] {
+  // Change ids are the tool_use id, so the same edit has the same id whichever way
+  // the log is read. Entries without one (very old logs) fall back to a position id.
+  private changeId(sessionId: string, entry: ClaudeLogEntry, toolUseId: string | undefined, index: number): string {
+    return toolUseId || `${sessionId}-${entry.uuid || entry.timestamp}-${index}`;
+  }
+
+  // legacyTurnId is the turn id older versions built change ids from, so that
+  // changes reverted under those ids are still recognized (see legacyIds)
+  private extractAllFileChanges(
+    entry: ClaudeLogEntry,
+    sessionId: string,
+    toolResults: Map<string, ToolResult>,
+    legacyTurnId?: string
+  ): FileChange[] {
     const changes: FileChange[] = [];
     const { timestamp } = entry;
 
@@ -548,46 +1343,85 @@ export class ClaudeLogParser {
       if (content.type === 'tool_use') {
         const toolName = content.name;
         const input = content.input;
+        const toolUseId = content.id;
+        const status = this.resolveChangeStatus(toolUseId, toolResults);
+        const { originalContent, created } = this.resolveOriginalContent(toolUseId, toolResults);
+        const payload = toolUseId ? toolResults.get(toolUseId)?.payload : undefined;
         changeIndex++;
 
+        const kind = (toolName || '').toLowerCase();
+        const common = {
+          id: this.changeId(sessionId, entry, toolUseId, changeIndex),
+          legacyIds: [
+            `${timestamp}-${kind}`,
+            ...(legacyTurnId ? [`${legacyTurnId}-${timestamp}-${kind}-${changeIndex}`] : [])
+          ],
+          timestamp: timestamp || '',
+          filePath: input?.file_path,
+          sessionId,
+          toolUseId,
+          originalContent,
+          ...status
+        };
+
+        // Plain rm and mv commands are deletes and renames; whatever else a command
+        // does to files is reported as a side effect (see extractSideEffects)
+        if (toolName === 'Bash') {
+          const analysis = analyzeBashCommand(input?.command || '', entry.cwd || this.projectPath);
+          const bashChanges: FileChange[] = analysis.operations.map(operation => ({ ...common, ...operation }));
+          // One command can remove or move several files
+          changes.push(...bashChanges.map((change, index) =>
+            bashChanges.length > 1 ? { ...change, id: `${change.id}-${index + 1}`, legacyIds: [] } : change));
+          continue;
+        }
+
         let change: FileChange | null = null;
 
         switch (toolName) {
           case 'Write':
             change = {
-              id: `${turnId}-${timestamp}-write-${changeIndex}`,
-              timestamp: timestamp || '',
-              type: 'write',
-              filePath: input?.file_path,
-              newContent: input?.content,
-              isLatestSession
+              ...common,
+              type: created ? 'create' : 'write',
+              newContent: input?.content
             };
             break;
 
           case 'Edit':
             change = {
-              id: `${turnId}-${timestamp}-edit-${changeIndex}`,
-              timestamp: timestamp || '',
+              ...common,
               type: 'edit',
-              filePath: input?.file_path,
               changes: [{
                 oldString: input?.old_string,
                 newString: input?.new_string,
                 replaceAll: input?.replace_all
-              }],
-              isLatestSession
+              }]
             };
             break;
 
           case 'MultiEdit':
             change = {
-              id: `${turnId}-${timestamp}-multiedit-${changeIndex}`,
-              timestamp: timestamp || '',
+              ...common,
               type: 'edit',
-              filePath: input?.file_path,
-              changes: input?.edits,
-              isLatestSession
+              changes: this.normalizeEdits(input?.edits)
+            };
+            break;
+
+          case 'NotebookEdit':
+            change = {
+              ...common,
+              type: 'notebook',
+              filePath: input?.notebook_path,
+              notebookEdit: {
+                cellId: input?.cell_id || undefined,
+                editMode: input?.edit_mode === 'insert' || input?.edit_mode === 'delete' ? input.edit_mode : 'replace',
+                cellType: input?.cell_type,
+                newSource: input?.new_source ?? ''
+              }
             };
+            // For an insert the result names the new cell, unless it only echoes the input
+            if (change.notebookEdit!.editMode === 'insert' && typeof payload?.cell_id === 'string' && payload.cell_id !== input?.cell_id) {
+              change.notebookEdit!.newCellId = payload.cell_id;
+            }
             break;
         }
 
@@ -599,4 +1433,52 @@ export class ClaudeLogParser {
 
     return changes;
   }
+
+  // Bash commands in an assistant entry that may have changed files in ways that are
+  // not tracked as changes
+  private extractSideEffects(entry: ClaudeLogEntry, toolResults: Map<string, ToolResult>): BashSideEffect[] {
+    const sideEffects: BashSideEffect[] = [];
+    if (!entry.message?.content || !Array.isArray(entry.message.content)) {
+      return sideEffects;
+    }
+
+    for (const content of entry.message.content) {
+      if (content.type !== 'tool_use' || content.name !== 'Bash' || !content.id) {
+        continue;
+      }
+      const command: string = content.input?.command || '';
+      const analysis = analyzeBashCommand(command, entry.cwd || this.projectPath);
+      if (analysis.effects.length === 0) {
+        continue;
+      }
+
+      const output = toolResults.get(content.id)?.text || '';
+      sideEffects.push({
+        id: content.id,
+        timestamp: entry.timestamp || '',
+        command,
+        description: content.input?.description,
+        cwd: entry.cwd,
+        output: output.length > MAX_SIDE_EFFECT_OUTPUT ? output.substring(0, MAX_SIDE_EFFECT_OUTPUT) + '\n…' : output,
+        status: this.resolveChangeStatus(content.id, toolResults).status,
+        effects: analysis.effects,
+        paths: analysis.paths
+      });
+    }
+
+    return sideEffects;
+  }
+
+  // MultiEdit input uses snake_case keys (old_string/new_string/replace_all)
+  private normalizeEdits(edits: any): FileChange['changes'] {
+    if (!Array.isArray(edits)) {
+      return [];
+    }
+
+    return edits.map(edit => ({
+      oldString: edit?.old_string ?? edit?.oldString ?? '',
+      newString: edit?.new_string ?? edit?.newString ?? '',
+      replaceAll: edit?.replace_all ?? edit?.replaceAll
+    }));
+  }
 }
\ No newline at end of file
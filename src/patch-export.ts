@@ -0,0 +1,306 @@
+import * as path from 'path';
+import * as diff from 'diff';
+import { ConversationTurn, ParsedChange, PatchExport, PatchFormat, RevertScope, SessionWithTurns } from './types.js';
+
+const DEFAULT_AUTHOR = 'Claude <noreply@anthropic.com>';
+const SUBJECT_LENGTH = 72;
+// The fixed "From <commit> <date>" line git format-patch starts every mail with
+const MBOX_FROM_LINE = 'From 0000000000000000000000000000000000000000 Mon Sep 17 00:00:00 2001';
+// Bytes of text per RFC 2047 encoded word, which base64 turns into 60 characters
+const MAX_ENCODED_BYTES = 45;
+
+// A file's content before the first and after the last of a set of changes; null means no
+// file. A moved file names the path it came from, and its content is undefined while the
+// changes only moved it.
+export interface FileState {
+  before: string | null | undefined;
+  after: string | null | undefined;
+  renamedFrom?: string;
+}
+
+// A turn's exportable changes, with file paths relative to the project
+export interface TurnFiles {
+  turn: ConversationTurn;
+  changeIds: string[];
+  files: Map<string, FileState>;
+}
+
+// Turns Claude's changes into patches that `git apply` (plain patch) or `git am` (mbox)
+// accept. Paths are made relative to the project, so patches apply from its root.
+export class PatchExporter {
+  private projectPath: string;
+  private author: string;
+
+  constructor(projectPath: string = process.cwd(), author: string = DEFAULT_AUTHOR) {
+    this.projectPath = path.resolve(projectPath);
+    this.author = author;
+  }
+
+  export(session: SessionWithTurns, scope: RevertScope, format: PatchFormat): PatchExport {
+    const result: PatchExport = {
+      scope,
+      format,
+      content: '',
+      patchCount: 0,
+      changeIds: [],
+      skipped: []
+    };
+
+    const turns = this.selectTurns(session, scope, result.skipped);
+    if (turns.length === 0) {
+      throw new Error('No applied changes to export');
+    }
+    result.changeIds = turns.flatMap(({ changes }) => changes.map(change => change.id));
+
+    if (format === 'patch') {
+      result.content = this.formatDiffs(this.fileStates(turns.flatMap(({ changes }) => changes)));
+      result.patchCount = 1;
+      return result;
+    }
+
+    // One mail per turn, numbered like `git format-patch`
+    const mails = turns
+      .map(({ turn, changes }) => ({ turn, diffs: this.formatDiffs(this.fileStates(changes)) }))
+      .filter(({ diffs }) => diffs !== '');
+    result.content = mails
+      .map(({ turn, diffs }, index) => this.formatMail(session, turn, diffs, index + 1, mails.length))
+      .join('\n');
+    result.patchCount = mails.length;
+    return result;
+  }
+
+  // What each turn in scope did to the files, for building commits
+  turnFiles(session: SessionWithTurns, scope: RevertScope, skipped: PatchExport['skipped'] = []): TurnFiles[] {
+    return this.selectTurns(session, scope, skipped).map(({ turn, changes }) => ({
+      turn,
+      changeIds: changes.map(change => change.id),
+      files: this.fileStates(changes)
+    }));
+  }
+
+  // Commit subject (the user prompt on one line) and body (the full prompt where the
+  // subject does not hold it, the assistant's reply, then trailers linking back to the
+  // session) for a turn
+  commitMessage(session: SessionWithTurns, turn: ConversationTurn): { subject: string; body: string } {
+    const fullPrompt = (turn.userMessageFull || turn.userMessage || '').trim();
+    const prompt = fullPrompt.replace(/\s+/g, ' ');
+    let subject = prompt && prompt !== 'No message' ? prompt : `Changes from ${turn.id}`;
+    if (subject.length > SUBJECT_LENGTH) {
+      subject = subject.substring(0, SUBJECT_LENGTH - 3) + '...';
+    }
+
+    const reply = (turn.assistantMessage || '').trim();
+    const trailers = `Claude-Session: ${session.sessionId}\nClaude-Turn: ${turn.id}`;
+    const paragraphs = [fullPrompt !== subject && prompt !== 'No message' ? fullPrompt : '', reply, trailers];
+    return { subject, body: paragraphs.filter(paragraph => paragraph).join('\n\n') };
+  }
+
+  // Turns in scope with the changes that can be exported, in log order
+  private selectTurns(
+    session: SessionWithTurns,
+    scope: RevertScope,
+    skipped: PatchExport['skipped']
+  ): Array<{ turn: ConversationTurn; changes: ParsedChange[] }> {
+    const inScope = (turn: ConversationTurn, change: ParsedChange) => {
+      if ('changeId' in scope) return change.id === scope.changeId;
+      if ('turnId' in scope) return turn.id === scope.turnId && !(scope.excludeSubagents && change.subagentId);
+      if ('subagentId' in scope) return change.subagentId === scope.subagentId;
+      if ('sessionId' in scope) return true;
+      return path.resolve(change.filePath) === path.resolve(this.projectPath, scope.filePath);
+    };
+
+    const turns: Array<{ turn: ConversationTurn; changes: ParsedChange[] }> = [];
+
+    for (const turn of session.turns) {
+      const changes: ParsedChange[] = [];
+
+      for (const change of (turn.parsedChanges || []).filter(c => inScope(turn, c))) {
+        const reason = this.skipReason(change);
+        if (reason) {
+          skipped.push({ changeId: change.id, filePath: change.filePath, reason });
+        } else {
+          changes.push(change);
+        }
+      }
+
+      if (changes.length > 0) {
+        turns.push({ turn, changes });
+      }
+    }
+
+    return turns;
+  }
+
+  private skipReason(change: ParsedChange): string | null {
+    if (change.status !== 'applied') {
+      return `not applied (${change.status})`;
+    }
+    if (change.type === 'notebook' && change.newContent === undefined) {
+      return 'the notebook after the change could not be recovered';
+    }
+    // Without the full file the diff only covers the edited snippets and would not apply.
+    // A rename moves the file as it is.
+    if (change.type !== 'create' && change.type !== 'rename' && (!change.oldContentSource || change.oldContentSource === 'unknown')) {
+      return 'file content before the change could not be recovered';
+    }
+    if (this.relativePath(change.filePath).startsWith('..') || (change.newFilePath && this.relativePath(change.newFilePath).startsWith('..'))) {
+      return 'outside the project';
+    }
+    return null;
+  }
+
+  private relativePath(filePath: string): string {
+    return path.relative(this.projectPath, path.resolve(this.projectPath, filePath)).split(path.sep).join('/');
+  }
+
+  // Per file, the content before its first change and after its last one. A renamed file
+  // is kept under its new path.
+  private fileStates(changes: ParsedChange[]): Map<string, FileState> {
+    const files = new Map<string, FileState>();
+
+    for (const change of changes) {
+      const filePath = this.relativePath(change.filePath);
+
+      if (change.type === 'rename') {
+        const newFilePath = this.relativePath(change.newFilePath!);
+        const moved = files.get(filePath) ?? { before: undefined, after: undefined };
+        files.delete(filePath);
+        // A file created by these changes is simply created at its new path
+        const renamedFrom = moved.before === null ? undefined : (moved.renamedFrom ?? filePath);
+        files.set(newFilePath, {
+          before: moved.before,
+          after: moved.after,
+          renamedFrom: renamedFrom === newFilePath ? undefined : renamedFrom
+        });
+        continue;
+      }
+
+      const after = change.type === 'delete' ? null : (change.newContent ?? '');
+      const file = files.get(filePath);
+      if (file) {
+        // The first content seen of a file that was only moved so far
+        if (file.before === undefined) {
+          file.before = change.oldContent ?? '';
+        }
+        file.after = after;
+      } else {
+        files.set(filePath, {
+          before: change.type === 'create' ? null : (change.oldContent ?? ''),
+          after
+        });
+      }
+    }
+
+    return files;
+  }
+
+  // One git-style diff per file
+  private formatDiffs(files: Map<string, FileState>): string {
+    let output = '';
+    for (const [filePath, { before, after, renamedFrom }] of files) {
+      if (renamedFrom && after === null) {
+        // Moved, then deleted: gone from where it was
+        output += this.formatFileDiff(renamedFrom, before ?? '', null);
+      } else if (renamedFrom) {
+        output += this.formatRename(renamedFrom, filePath, before, after);
+      } else if (before !== after) {
+        output += this.formatFileDiff(filePath, before ?? null, after ?? null);
+      }
+    }
+    return output;
+  }
+
+  private formatFileDiff(filePath: string, before: string | null, after: string | null): string {
+    const lines = [`diff --git a/${filePath} b/${filePath}`];
+    if (before === null) {
+      lines.push('new file mode 100644');
+    } else if (after === null) {
+      lines.push('deleted file mode 100644');
+    }
+
+    const hunks = this.diffHunks(before ?? '', after ?? '');
+    if (hunks.length === 0) {
+      // Empty file created or deleted: git expects the header only
+      return lines.join('\n') + '\n';
+    }
+
+    lines.push(before === null ? '--- /dev/null' : `--- a/${filePath}`);
+    lines.push(after === null ? '+++ /dev/null' : `+++ b/${filePath}`);
+
+    return lines.join('\n') + '\n' + hunks.join('\n');
+  }
+
+  // git's rename headers, then the content changes made to the file on the way if any
+  private formatRename(from: string, to: string, before: string | null | undefined, after: string | null | undefined): string {
+    const lines = [`diff --git a/${from} b/${to}`];
+    const hunks = typeof before === 'string' && typeof after === 'string' ? this.diffHunks(before, after) : [];
+    if (hunks.length === 0) {
+      lines.push('similarity index 100%');
+    }
+    lines.push(`rename from ${from}`, `rename to ${to}`);
+    if (hunks.length === 0) {
+      return lines.join('\n') + '\n';
+    }
+
+    lines.push(`--- a/${from}`, `+++ b/${to}`);
+    return lines.join('\n') + '\n' + hunks.join('\n');
+  }
+
+  // The hunk lines of a unified diff, none when the contents are equal
+  private diffHunks(before: string, after: string): string[] {
+    const patch = diff.createTwoFilesPatch('a', 'b', before, after);
+    // Drop the "Index:", "====" and ---/+++ header lines
+    const body = patch.split('\n');
+    const hunks = body.slice(body.findIndex(line => line.startsWith('--- ')) + 2);
+    return hunks.some(line => line.startsWith('@@')) ? hunks : [];
+  }
+
+  // A `git format-patch` style mail: the user prompt is the subject, the assistant's
+  // reply the body
+  private formatMail(session: SessionWithTurns, turn: ConversationTurn, diffs: string, index: number, total: number): string {
+    const message = this.commitMessage(session, turn);
+    const body = message.body
+      .split('\n')
+      // Lines that would start a new mail, or that git mailinfo takes for the patch
+      .map(line => /^(From |---|diff -|Index: )/.test(line) ? ` ${line}` : line)
+      .join('\n');
+
+    const numbering = total > 1 ? `${index}/${total}` : '';
+    return [
+      MBOX_FROM_LINE,
+      `From: ${this.author}`,
+      `Date: ${new Date(turn.timestamp).toUTCString()}`,
+      `Subject: [PATCH${numbering ? ' ' + numbering : ''}] ${encodeHeader(message.subject)}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      body,
+      '---',
+      diffs + '-- ',
+      'crevr',
+      ''
+    ].join('\n');
+  }
+}
+
+// A header value as RFC 2047 encoded words when it is not plain ASCII. Each word holds
+// whole characters and stays within the 75 characters a word may have.
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > MAX_ENCODED_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\n ');
+}
@@ -0,0 +1,57 @@
+import * as path from 'path';
+import { ClaudeLogParser } from './parser.js';
+import { ChangeTracker } from './change-tracker.js';
+import { LogWatcher } from './log-watcher.js';
+import { SessionLoader } from './session-loader.js';
+import { PatchExporter } from './patch-export.js';
+import { SessionSearch } from './session-search.js';
+import { FileHistory } from './file-history.js';
+import { ChangeStatus, ParsedChange, ProjectLocation, ProjectOptions } from './types.js';
+
+// What connected clients have been sent for a session, to push only what is new
+export interface LiveSessionState {
+  turnIds: Set<string>;
+  changes: Map<string, ChangeStatus>;
+  sideEffects: Set<string>;  // Bash side effect (tool_use) ids
+}
+
+// Everything the server keeps for one project: where its logs are, its revert state and
+// the changes loaded so far. The server keeps one per project it has shown.
+export class ProjectContext {
+  projectPath: string;
+  parser: ClaudeLogParser;
+  tracker: ChangeTracker;
+  loader: SessionLoader;
+  exporter: PatchExporter;
+  search: SessionSearch;
+  fileHistory: FileHistory;
+  // Every change loaded so far, keyed by change (tool_use) id
+  changes: Map<string, ParsedChange> = new Map();
+  liveSessions: Map<string, LiveSessionState> = new Map();
+  watcher: LogWatcher | null = null;
+  private initialized: Promise<ProjectLocation> | null = null;
+
+  constructor(options: ProjectOptions = {}) {
+    this.projectPath = path.resolve(options.projectPath || process.cwd());
+    this.parser = new ClaudeLogParser({ ...options, projectPath: this.projectPath });
+    this.tracker = new ChangeTracker(this.projectPath);
+    this.loader = new SessionLoader(this.parser, this.tracker, this.projectPath);
+    this.exporter = new PatchExporter(this.projectPath);
+    this.search = new SessionSearch(this.parser);
+    this.fileHistory = new FileHistory(this.parser, this.loader, this.projectPath);
+  }
+
+  // Load the revert state and find the session logs, once
+  init(): Promise<ProjectLocation> {
+    if (!this.initialized) {
+      this.initialized = this.tracker.init().then(() => this.parser.getProjectLocation());
+    }
+    return this.initialized;
+  }
+
+  // Whether a path is inside the project root
+  contains(filePath: string): boolean {
+    const relative = path.relative(this.projectPath, path.resolve(this.projectPath, filePath));
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ProjectCandidate, ProjectLocation, ProjectSummary } from './types.js';
+import { readLines } from './line-reader.js';
+import { debug } from './debug.js';
+
+// Most recent session files read per folder to find the cwd its sessions ran in
+const SAMPLE_FILES = 3;
+// Lines read per session file before giving up on finding a cwd
+const SAMPLE_LINES = 50;
+// Folders listed in the diagnostic when none looks like the project
+const MAX_CANDIDATES = 10;
+
+// Claude's config directory: CLAUDE_CONFIG_DIR if set, else ~/.claude
+export function defaultClaudeDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+}
+
+// Folder names Claude gives a project path under <claude dir>/projects. Current versions
+// replace every character but letters and digits with '-', older ones only / \ : and _.
+// On Windows: C:\Users\Foo_Bar -> C--Users-Foo-Bar
+// On Unix: /Users/foo_bar -> -Users-foo-bar
+export function encodeProjectPath(projectPath: string): string[] {
+  return [...new Set([
+    projectPath.replace(/[^a-zA-Z0-9]/g, '-'),
+    projectPath.replace(/[\/\\:_]/g, '-')
+  ])];
+}
+
+// Finds the folder holding a project's session logs. Folder names are not reliable:
+// different paths can share one (/a_b and /a-b) and the encoding changed between Claude
+// versions. So a folder only counts once the cwd recorded in its sessions is the project.
+export class ProjectLocator {
+  private projectPath: string;
+  private claudeDir: string;
+
+  constructor(projectPath: string = process.cwd(), claudeDir: string = defaultClaudeDir()) {
+    this.projectPath = path.resolve(projectPath);
+    this.claudeDir = path.resolve(claudeDir);
+  }
+
+  async locate(): Promise<ProjectLocation> {
+    const projectsDir = path.join(this.claudeDir, 'projects');
+    const names = encodeProjectPath(this.projectPath);
+    const location: ProjectLocation = {
+      projectPath: this.projectPath,
+      claudeDir: this.claudeDir,
+      logDir: path.join(projectsDir, names[0]),
+      found: false,
+      verified: false,
+      candidates: []
+    };
+
+    let dirNames: string[];
+    try {
+      dirNames = (await fs.promises.readdir(projectsDir, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return location;
+      }
+      throw error;
+    }
+
+    // Folders named after the project. One without any recorded cwd (e.g. only
+    // summaries so far) is taken on its name alone.
+    for (const name of names.filter(name => dirNames.includes(name))) {
+      const candidate = await inspectProjectDir(projectsDir, name);
+      if (candidate.cwds.length === 0 || this.matches(candidate)) {
+        return { ...location, logDir: candidate.logDir, found: true, verified: candidate.cwds.length > 0 };
+      }
+      location.candidates.push(candidate);
+    }
+
+    // Then any folder whose sessions ran in the project
+    const others: ProjectCandidate[] = [];
+    for (const name of dirNames.filter(name => !names.includes(name))) {
+      const candidate = await inspectProjectDir(projectsDir, name);
+      if (this.matches(candidate)) {
+        debug(`Found sessions for ${this.projectPath} in ${candidate.logDir}`);
+        return { ...location, logDir: candidate.logDir, found: true, verified: true, candidates: [] };
+      }
+      others.push(candidate);
+    }
+
+    location.candidates.push(...this.similar(others));
+    return location;
+  }
+
+  private matches(candidate: ProjectCandidate): boolean {
+    return candidate.cwds.some(cwd => this.isProjectPath(cwd));
+  }
+
+  private isProjectPath(cwd: string): boolean {
+    const resolved = path.resolve(cwd);
+    // Windows paths are case-insensitive
+    return process.platform === 'win32'
+      ? resolved.toLowerCase() === this.projectPath.toLowerCase()
+      : resolved === this.projectPath;
+  }
+
+  // Folders whose name or recorded cwd ends in the project's directory name, or
+  // else the first few folders, so the diagnostic always has something to show
+  private similar(candidates: ProjectCandidate[]): ProjectCandidate[] {
+    const baseName = path.basename(this.projectPath);
+    const encodedBaseName = baseName.replace(/[^a-zA-Z0-9]/g, '-');
+    const similar = candidates.filter(candidate =>
+      candidate.dirName.endsWith(`-${encodedBaseName}`) ||
+      candidate.cwds.some(cwd => path.basename(cwd) === baseName)
+    );
+    return (similar.length > 0 ? similar : candidates).slice(0, MAX_CANDIDATES);
+  }
+}
+
+// Every project folder under <claude dir>/projects with the directory its sessions ran
+// in, most recently active first
+export async function listProjects(claudeDir: string = defaultClaudeDir()): Promise<ProjectSummary[]> {
+  const projectsDir = path.join(path.resolve(claudeDir), 'projects');
+  let dirNames: string[];
+  try {
+    dirNames = (await fs.promises.readdir(projectsDir, { withFileTypes: true }))
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const projects: ProjectSummary[] = [];
+  for (const dirName of dirNames) {
+    const candidate = await inspectProjectDir(projectsDir, dirName);
+    const projectPath = candidate.cwds[0] || null;
+    const stat = projectPath ? await fs.promises.stat(projectPath).catch(() => null) : null;
+    projects.push({ ...candidate, projectPath, exists: !!stat?.isDirectory() });
+  }
+
+  return projects.sort((a, b) => (b.lastActivity || 0) - (a.lastActivity || 0));
+}
+
+async function inspectProjectDir(projectsDir: string, dirName: string): Promise<ProjectCandidate> {
+  const logDir = path.join(projectsDir, dirName);
+  const cwds = new Set<string>();
+  const files: Array<{ filePath: string; mtime: number }> = [];
+
+  try {
+    for (const file of await fs.promises.readdir(logDir)) {
+      if (file.endsWith('.jsonl')) {
+        const filePath = path.join(logDir, file);
+        files.push({ filePath, mtime: (await fs.promises.stat(filePath)).mtimeMs });
+      }
+    }
+    files.sort((a, b) => b.mtime - a.mtime);
+
+    for (const { filePath } of files.slice(0, SAMPLE_FILES)) {
+      const cwd = await recordedCwd(filePath);
+      if (cwd) {
+        cwds.add(cwd);
+      }
+    }
+  } catch (error) {
+    // Unreadable folders are listed without a cwd
+  }
+
+  return {
+    dirName,
+    logDir,
+    cwds: [...cwds],
+    sessionCount: files.length,
+    lastActivity: files.length > 0 ? files[0].mtime : null
+  };
+}
+
+// The working directory Claude recorded in the first entries of a session
+async function recordedCwd(filePath: string): Promise<string | null> {
+  let count = 0;
+  for await (const { line } of readLines(filePath)) {
+    if (++count > SAMPLE_LINES) {
+      break;
+    }
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry.cwd === 'string' && entry.cwd) {
+        return entry.cwd;
+      }
+    } catch (error) {
+      // Skip malformed lines
+    }
+  }
+  return null;
+}
+
+// Explain why no sessions were found for a project and which folders came close
+export function describeProjectLocation(location: ProjectLocation): string {
+  const projectsDir = path.join(location.claudeDir, 'projects');
+  const lines = [
+    `No Claude sessions found for ${location.projectPath}`,
+    `Looked in ${projectsDir} for ${path.basename(location.logDir)} or a folder whose sessions ran in this directory.`
+  ];
+
+  if (location.candidates.length > 0) {
+    lines.push('Candidate folders:');
+    for (const candidate of location.candidates) {
+      const ranIn = candidate.cwds.length > 0 ? `sessions ran in ${candidate.cwds.join(', ')}` : 'no cwd recorded';
+      lines.push(`  ${candidate.dirName}  (${ranIn})`);
+    }
+  } else if (!fs.existsSync(projectsDir)) {
+    lines.push(`${projectsDir} does not exist.`);
+  }
+
+  lines.push('Pass --project <path> for another project, or --claude-dir <dir> (or set CLAUDE_CONFIG_DIR) if Claude keeps its data elsewhere.');
+  return lines.join('\n');
+}
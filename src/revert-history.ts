@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import { RevertOperation, RevertOperationSummary, RevertScope } from './types.js';
+
+// Backups of every file a revert overwrote or deleted, one JSON file per operation
+export class RevertHistory {
+  private historyDir: string;
+  private projectPath: string;
+
+  constructor(projectPath: string = process.cwd()) {
+    this.historyDir = path.join(os.homedir(), '.crevr', 'backups');
+    this.projectPath = path.resolve(projectPath);
+  }
+
+  async init(): Promise<void> {
+    await fs.promises.mkdir(this.historyDir, { recursive: true });
+  }
+
+  async record(
+    scope: RevertScope,
+    changes: RevertOperation['changes'],
+    files: RevertOperation['files']
+  ): Promise<RevertOperation> {
+    const operation: RevertOperation = {
+      id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+      timestamp: new Date().toISOString(),
+      projectPath: this.projectPath,
+      scope,
+      changeIds: changes.map(change => change.changeId),
+      changes,
+      files,
+      state: 'reverted'
+    };
+
+    await this.save(operation);
+    return operation;
+  }
+
+  async save(operation: RevertOperation): Promise<void> {
+    await fs.promises.mkdir(this.historyDir, { recursive: true });
+    await fs.promises.writeFile(this.operationFile(operation.id), JSON.stringify(operation, null, 2));
+  }
+
+  async remove(operationId: string): Promise<void> {
+    await fs.promises.rm(this.operationFile(operationId), { force: true });
+  }
+
+  // One of this project's operations by id
+  async get(operationId: string): Promise<RevertOperation | null> {
+    try {
+      const data = await fs.promises.readFile(this.operationFile(operationId), 'utf-8');
+      const operation: RevertOperation = JSON.parse(data);
+      return operation.projectPath === this.projectPath ? operation : null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // This project's operations, newest first
+  async list(limit: number = 50): Promise<RevertOperationSummary[]> {
+    const operations = await this.loadAll();
+
+    return operations.slice(0, limit).map(operation => ({
+      id: operation.id,
+      timestamp: operation.timestamp,
+      scope: operation.scope,
+      changeIds: operation.changeIds,
+      filePaths: operation.files.map(file => file.filePath),
+      state: operation.state
+    }));
+  }
+
+  // The operation an undo (state 'reverted') or redo (state 'restored') applies to
+  async latest(state: RevertOperation['state']): Promise<RevertOperation | null> {
+    const operations = await this.loadAll();
+    return operations.find(operation => operation.state === state) || null;
+  }
+
+  private async loadAll(): Promise<RevertOperation[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.historyDir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const operations: RevertOperation[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const data = await fs.promises.readFile(path.join(this.historyDir, file), 'utf-8');
+        const operation: RevertOperation = JSON.parse(data);
+        if (operation.projectPath === this.projectPath) {
+          operations.push(operation);
+        }
+      } catch (error) {
+        // Skip unreadable backups
+        continue;
+      }
+    }
+
+    return operations.sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id));
+  }
+
+  private operationFile(operationId: string): string {
+    // Ids are generated by record(), but never let one escape the backup directory
+    return path.join(this.historyDir, `${path.basename(operationId)}.json`);
+  }
+}
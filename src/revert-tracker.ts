@@ -1,64 +1,390 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { createHash, randomUUID } from 'crypto';
+import { RevertRecord } from './types.js';
+import { debug } from './debug.js';
+
+const STORE_VERSION = 2;
+// Changes recorded before reverts were scoped by project (v1 format), until a project
+// claims them
+const LEGACY_PROJECT = '(legacy)';
+// Changes that do not know their session (e.g. from `crevr list`)
+const DEFAULT_SESSION = 'default';
+const LOCK_TIMEOUT_MS = 5000;
+// Age after which a lock that does not name its owner is taken over
+const STALE_LOCK_MS = 30000;
+
+// On-disk format of reverted-changes.json:
+// projects -> project path -> sessions -> session id -> change id -> record
+interface RevertStore {
+  version: number;
+  projects: Record<string, {
+    sessions: Record<string, Record<string, RevertRecord>>;
+  }>;
+}
+
+export interface RevertedChangeInput {
+  changeId: string;
+  sessionId?: string;
+  filePath: string;
+  operationId?: string;
+  before: string | null;  // File content before the revert, null if missing
+  after: string | null;  // File content after the revert, null if deleted
+}
 
 export class RevertTracker {
   private revertFile: string;
+  private lockFile: string;
+  private projectPath: string;
 
-  constructor() {
+  constructor(projectPath: string = process.cwd()) {
     this.revertFile = path.join(os.homedir(), '.crevr', 'reverted-changes.json');
+    this.lockFile = `${this.revertFile}.lock`;
+    this.projectPath = path.resolve(projectPath);
   }
 
   async init(): Promise<void> {
     await fs.promises.mkdir(path.dirname(this.revertFile), { recursive: true });
+
+    // Rewrite a v1 file in the current format once, instead of on every read
+    await this.withLock(async () => {
+      const raw = await this.readRaw();
+      if (raw !== null && raw.version === undefined) {
+        debug('Migrating reverted-changes.json to the per-project format');
+        await this.writeStore(this.migrate(raw));
+      }
+    });
+  }
+
+  // Reverted change ids in this project, for one session or all of them
+  async getRevertedIds(sessionId?: string): Promise<string[]> {
+    return (await this.getRevertRecords(sessionId)).map(record => record.changeId);
+  }
+
+  async getRevertRecords(sessionId?: string): Promise<RevertRecord[]> {
+    const store = await this.readStore();
+    const records: RevertRecord[] = [];
+
+    const sessions = store.projects[this.projectPath]?.sessions || {};
+    for (const [id, changes] of Object.entries(sessions)) {
+      if (sessionId === undefined || id === sessionId) {
+        records.push(...Object.values(changes));
+      }
+    }
+
+    return records;
+  }
+
+  async isReverted(changeId: string, sessionId: string = DEFAULT_SESSION): Promise<boolean> {
+    const ids = await this.getRevertedIds(sessionId);
+    return ids.includes(changeId);
+  }
+
+  // Changes are matched by id or by any id an older version gave them
+  async filterRevertedChanges<T extends { id: string; sessionId?: string; legacyIds?: string[] }>(
+    changes: T[]
+  ): Promise<T[]> {
+    const sessions = (await this.readStore()).projects[this.projectPath]?.sessions || {};
+    return changes.filter(change => this.recordKeys(change).every(([id, changeId]) => !sessions[id]?.[changeId]));
+  }
+
+  // Move the v1 records matching these changes into this project. v1 did not record the
+  // project, so a record belongs to the first project that has its change, and no longer
+  // counts for any other.
+  async claimLegacyRecords(changes: Array<{ id: string; sessionId?: string; legacyIds?: string[] }>): Promise<void> {
+    const legacy = (await this.readStore()).projects[LEGACY_PROJECT]?.sessions;
+    if (!legacy) {
+      return;
+    }
+    const keys = changes.flatMap(change => this.recordKeys(change)).filter(([id, changeId]) => legacy[id]?.[changeId]);
+    if (keys.length === 0) {
+      return;
+    }
+
+    await this.update(store => {
+      const unclaimed = store.projects[LEGACY_PROJECT]?.sessions || {};
+      let changed = false;
+
+      for (const [id, changeId] of keys) {
+        // Another project may have claimed it meanwhile
+        const record = unclaimed[id]?.[changeId];
+        if (!record) {
+          continue;
+        }
+        const sessions = this.projectSessions(store);
+        sessions[id] = { ...sessions[id], [changeId]: record };
+        delete unclaimed[id][changeId];
+        if (Object.keys(unclaimed[id]).length === 0) {
+          delete unclaimed[id];
+        }
+        changed = true;
+      }
+
+      if (Object.keys(unclaimed).length === 0) {
+        delete store.projects[LEGACY_PROJECT];
+      }
+      return changed;
+    });
+  }
+
+  // Session and change id pairs a change's record can be stored under
+  private recordKeys(change: { id: string; sessionId?: string; legacyIds?: string[] }): Array<[string, string]> {
+    const ids = [change.id, ...(change.legacyIds || [])];
+    // v1 ids from `crevr list` were stored without a session
+    return [change.sessionId || DEFAULT_SESSION, DEFAULT_SESSION].flatMap(id => ids.map(changeId => [id, changeId] as [string, string]));
+  }
+
+  async markAsReverted(changeId: string, sessionId: string = DEFAULT_SESSION): Promise<void> {
+    await this.markManyAsReverted([{ changeId, sessionId, filePath: '', before: null, after: null }]);
+  }
+
+  // Record several reverts with a single locked write
+  async markManyAsReverted(changes: RevertedChangeInput[]): Promise<void> {
+    const revertedAt = new Date().toISOString();
+    const revertedBy = this.currentUser();
+
+    await this.update(store => {
+      const sessions = this.projectSessions(store);
+
+      for (const change of changes) {
+        const sessionId = change.sessionId || DEFAULT_SESSION;
+        if (!sessions[sessionId]) {
+          sessions[sessionId] = {};
+        }
+
+        sessions[sessionId][change.changeId] = {
+          changeId: change.changeId,
+          filePath: change.filePath,
+          revertedAt,
+          revertedBy,
+          operationId: change.operationId,
+          contentBefore: this.hashContent(change.before),
+          contentAfter: this.hashContent(change.after)
+        };
+      }
+    });
+  }
+
+  async unmarkAsReverted(changeId: string, sessionId?: string): Promise<void> {
+    await this.unmarkManyAsReverted([changeId], sessionId);
   }
 
-  async getRevertedChanges(): Promise<Record<string, string[]>> {
+  // Without a session id, the changes are unmarked in every session of the project
+  async unmarkManyAsReverted(changeIds: string[], sessionId?: string): Promise<void> {
+    await this.update(store => {
+      let changed = false;
+
+      const sessions = store.projects[this.projectPath]?.sessions || {};
+      for (const [id, changes] of Object.entries(sessions)) {
+        if (sessionId !== undefined && id !== sessionId) {
+          continue;
+        }
+        for (const changeId of changeIds) {
+          if (changes[changeId]) {
+            delete changes[changeId];
+            changed = true;
+          }
+        }
+      }
+
+      return changed;
+    });
+  }
+
+  private projectSessions(store: RevertStore): RevertStore['projects'][string]['sessions'] {
+    if (!store.projects[this.projectPath]) {
+      store.projects[this.projectPath] = { sessions: {} };
+    }
+    return store.projects[this.projectPath].sessions;
+  }
+
+  private async readRaw(): Promise<any | null> {
     try {
       const data = await fs.promises.readFile(this.revertFile, 'utf-8');
       return JSON.parse(data);
     } catch (error: any) {
       if (error.code === 'ENOENT') {
-        return {};
+        return null;
       }
       throw error;
     }
   }
 
-  async markAsReverted(changeId: string, sessionKey: string = 'default'): Promise<void> {
-    const revertedChanges = await this.getRevertedChanges();
-    
-    if (!revertedChanges[sessionKey]) {
-      revertedChanges[sessionKey] = [];
+  private async readStore(): Promise<RevertStore> {
+    const raw = await this.readRaw();
+
+    if (raw === null) {
+      return { version: STORE_VERSION, projects: {} };
     }
-    
-    if (!revertedChanges[sessionKey].includes(changeId)) {
-      revertedChanges[sessionKey].push(changeId);
-      await fs.promises.writeFile(this.revertFile, JSON.stringify(revertedChanges, null, 2));
+
+    if (raw.version === undefined) {
+      return this.migrate(raw);
+    }
+
+    if (raw.version > STORE_VERSION) {
+      throw new Error(`${this.revertFile} was written by a newer version of crevr (format v${raw.version})`);
     }
+
+    return raw;
   }
 
-  async isReverted(changeId: string, sessionKey: string = 'default'): Promise<boolean> {
-    const revertedChanges = await this.getRevertedChanges();
-    return revertedChanges[sessionKey]?.includes(changeId) || false;
+  // v1 stored a flat list of change ids per key ('default'), with no project.
+  // Turn-based ids start with the session id, so they keep their session.
+  private migrate(legacy: Record<string, string[]>): RevertStore {
+    const store: RevertStore = { version: STORE_VERSION, projects: {} };
+    const sessions: RevertStore['projects'][string]['sessions'] = {};
+
+    for (const [key, changeIds] of Object.entries(legacy)) {
+      if (!Array.isArray(changeIds)) {
+        continue;
+      }
+
+      for (const changeId of changeIds) {
+        const sessionId = changeId.match(/^(.+?)-turn-\d+-/)?.[1] || key;
+        if (!sessions[sessionId]) {
+          sessions[sessionId] = {};
+        }
+        sessions[sessionId][changeId] = {
+          changeId,
+          contentBefore: null,
+          contentAfter: null
+        };
+      }
+    }
+
+    if (Object.keys(sessions).length > 0) {
+      store.projects[LEGACY_PROJECT] = { sessions };
+    }
+
+    return store;
   }
 
-  async filterRevertedChanges<T extends { id: string }>(changes: T[], sessionKey: string = 'default'): Promise<T[]> {
-    const revertedChanges = await this.getRevertedChanges();
-    const revertedIds = revertedChanges[sessionKey] || [];
-    
-    return changes.filter(change => !revertedIds.includes(change.id));
+  // Write to a temporary file and rename it over the store, so readers never see a partial file
+  private async writeStore(store: RevertStore): Promise<void> {
+    const tempFile = `${this.revertFile}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempFile, JSON.stringify(store, null, 2));
+    await fs.promises.rename(tempFile, this.revertFile);
   }
 
-  async unmarkAsReverted(changeId: string, sessionKey: string = 'default'): Promise<void> {
-    const revertedChanges = await this.getRevertedChanges();
-    
-    if (revertedChanges[sessionKey]) {
-      const index = revertedChanges[sessionKey].indexOf(changeId);
-      if (index > -1) {
-        revertedChanges[sessionKey].splice(index, 1);
-        await fs.promises.writeFile(this.revertFile, JSON.stringify(revertedChanges, null, 2));
+  // Read-modify-write under the lock. The mutator returns false when nothing changed.
+  private async update(mutator: (store: RevertStore) => boolean | void): Promise<void> {
+    await this.withLock(async () => {
+      const store = await this.readStore();
+      if (mutator(store) !== false) {
+        await this.writeStore(store);
+      }
+    });
+  }
+
+  // Lock file shared by every crevr instance on this machine. It holds the owner's pid
+  // and a token of its own, so it is only taken over once that process is gone, however
+  // long it holds the lock.
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    const owner = `${process.pid}:${randomUUID()}`;
+
+    while (true) {
+      try {
+        const handle = await fs.promises.open(this.lockFile, 'wx');
+        await handle.writeFile(owner);
+        await handle.close();
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+
+        // A crashed instance can leave its lock behind
+        if (await this.removeStaleLock()) {
+          continue;
+        }
+
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for ${this.lockFile}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      if ((await this.readLock())?.owner === owner) {
+        await fs.promises.rm(this.lockFile, { force: true });
       }
     }
   }
-}
\ No newline at end of file
+
+  // Remove the lock if its owner is gone; true when it is gone now. The lock is moved
+  // aside first and checked to still be the stale one, since another waiter may have
+  // removed it and taken a fresh lock in between.
+  private async removeStaleLock(): Promise<boolean> {
+    const lock = await this.readLock();
+    if (!lock) {
+      return true;
+    }
+
+    // Older versions wrote the pid alone; a lock still being written has no owner yet
+    const pid = Number(lock.owner.split(':')[0]);
+    const stale = pid > 0 ? !isRunning(pid) : Date.now() - lock.mtimeMs > STALE_LOCK_MS;
+    if (!stale) {
+      return false;
+    }
+
+    const staleFile = `${this.lockFile}.${process.pid}.stale`;
+    try {
+      await fs.promises.rename(this.lockFile, staleFile);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+
+    const moved = await fs.promises.readFile(staleFile, 'utf-8').catch(() => null);
+    if (moved !== lock.owner) {
+      // Not the lock we found stale: put it back unless yet another one was taken
+      await fs.promises.link(staleFile, this.lockFile).catch(() => undefined);
+    }
+    await fs.promises.rm(staleFile, { force: true });
+    return true;
+  }
+
+  private async readLock(): Promise<{ owner: string; mtimeMs: number } | null> {
+    try {
+      const [owner, stat] = await Promise.all([
+        fs.promises.readFile(this.lockFile, 'utf-8'),
+        fs.promises.stat(this.lockFile)
+      ]);
+      return { owner, mtimeMs: stat.mtimeMs };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private hashContent(content: string | null): string | null {
+    return content === null ? null : createHash('sha256').update(content).digest('hex');
+  }
+
+  private currentUser(): string {
+    try {
+      return `${os.userInfo().username}@${os.hostname()}`;
+    } catch (error) {
+      return os.hostname();
+    }
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: it runs, as another user
+    return error.code === 'EPERM';
+  }
+}
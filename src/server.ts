@@ -1,31 +1,40 @@
 import express from 'express';
-import { WebSocketServer } from 'ws';
+import { WebSocketServer, WebSocket } from 'ws';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as http from 'http';
 import { fileURLToPath } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
-import { ClaudeLogParser } from './parser.js';
-import { ChangeTracker } from './change-tracker.js';
-import { ParsedChange } from './types.js';
+import { LogWatcher } from './log-watcher.js';
+import { LiveSessionState, ProjectContext } from './project-context.js';
+import { describeProjectLocation, listProjects } from './project-locator.js';
+import { ClaudeLogEntry, FileChange, FileHistoryResponse, ParsedChange, ProjectOptions, RevertOptions, RevertScope, SessionWithTurns } from './types.js';
+import { debug } from './debug.js';
+
+const CHANGE_TYPES = ['create', 'edit', 'write', 'delete', 'rename', 'notebook'];
 
 export class RevertServer {
   private app: express.Application;
   private server: http.Server;
   private wss: WebSocketServer;
-  private parser: ClaudeLogParser;
-  private tracker: ChangeTracker;
-  private changes: ParsedChange[] = [];
+  // Projects shown so far by path, and the one clients are browsing
+  private projects: Map<string, ProjectContext> = new Map();
+  private project: ProjectContext;
+  private claudeDir?: string;
+  // Live updates are processed one at a time, in the order they were written
+  private liveQueue: Promise<void> = Promise.resolve();
   private port: number;
 
-  constructor(port: number = 3456) {
+  constructor(port: number = 3456, options: ProjectOptions = {}) {
     this.port = port;
+    this.claudeDir = options.claudeDir;
     this.app = express();
     this.server = http.createServer(this.app);
     this.wss = new WebSocketServer({ server: this.server });
-    this.parser = new ClaudeLogParser();
-    this.tracker = new ChangeTracker();
+    this.project = new ProjectContext(options);
+    this.projects.set(this.project.projectPath, this.project);
 
     this.setupRoutes();
     this.setupWebSocket();
@@ -43,7 +52,7 @@ export class RevertServer {
     // API endpoint to get all sessions metadata
     this.app.get('/api/sessions', async (req, res) => {
       try {
-        const sessions = await this.parser.getAllSessionMetadata();
+        const sessions = await this.project.parser.getAllSessionMetadata();
         res.json(sessions);
       } catch (error) {
         console.error('Error getting sessions:', error);
@@ -51,11 +60,35 @@ export class RevertServer {
       }
     });
 
+    // API endpoints to list every project with Claude sessions and switch to one
+    this.app.get('/api/projects', async (req, res) => {
+      try {
+        res.json({
+          current: this.project.projectPath,
+          projects: await listProjects(this.claudeDir)
+        });
+      } catch (error: any) {
+        console.error('Error listing projects:', error);
+        res.status(500).json({ error: 'Failed to list projects' });
+      }
+    });
+
+    // Body: { projectPath }
+    this.app.post('/api/project', express.json(), async (req, res) => {
+      try {
+        const project = await this.handleSelectProject(req.body?.projectPath);
+        res.json(project);
+      } catch (error: any) {
+        console.error('Error selecting project:', error);
+        res.status(400).json({ error: error.message || 'Failed to select project' });
+      }
+    });
+
     // API endpoint to get changes for a specific session
     this.app.get('/api/session/:sessionId', async (req, res) => {
       try {
         const sessionId = req.params.sessionId;
-        const changes = await this.parser.getSessionChanges(sessionId);
+        const changes = await this.project.parser.getSessionChanges(sessionId);
         res.json(changes);
       } catch (error) {
         console.error('Error getting session changes:', error);
@@ -71,14 +104,12 @@ export class RevertServer {
           return res.status(400).json({ error: 'File path is required' });
         }
 
-        // Security check: ensure file is within current working directory
-        const absolutePath = path.resolve(filePath);
-        const cwd = process.cwd();
-        if (!absolutePath.startsWith(cwd)) {
+        // Security check: ensure file is within the project
+        const absolutePath = path.resolve(this.project.projectPath, filePath);
+        if (!this.project.contains(absolutePath)) {
           return res.status(403).json({ error: 'Access denied' });
         }
 
-        const fs = await import('fs');
         const content = await fs.promises.readFile(absolutePath, 'utf-8');
         res.send(content);
       } catch (error) {
@@ -87,6 +118,200 @@ export class RevertServer {
       }
     });
 
+    // API endpoint to preview a revert without touching disk
+    // Query: changeId, turnId (excludeSubagents=1 to leave subagent changes), subagentId,
+    // sessionId or filePath (beforeChangeId to bring the file back to before that change)
+    this.app.get('/api/revert/preview', async (req, res) => {
+      try {
+        const scope = this.parseRevertScope(req.query);
+        if (!scope) {
+          return res.status(400).json({ error: 'changeId, turnId, subagentId, sessionId or filePath is required' });
+        }
+
+        const preview = await this.project.tracker.previewRevert(scope, await this.resolveRevertScope(scope));
+        res.json(preview);
+      } catch (error: any) {
+        console.error('Error previewing revert:', error);
+        res.status(500).json({ error: error.message || 'Failed to preview revert' });
+      }
+    });
+
+    // API endpoint to revert several changes as one transaction
+    // Body: { turnId, excludeSubagents? } | { subagentId } | { sessionId } | { filePath, beforeChangeId? } | { changeId }, plus workingTreeOnly
+    // to confirm reverting changes that are already staged or committed
+    this.app.post('/api/revert/batch', express.json(), async (req, res) => {
+      try {
+        const scope = this.parseRevertScope(req.body);
+        if (!scope) {
+          return res.status(400).json({ error: 'changeId, turnId, subagentId, sessionId or filePath is required' });
+        }
+
+        const result = await this.project.tracker.revertBatch(scope, await this.resolveRevertScope(scope), {
+          workingTreeOnly: req.body.workingTreeOnly === true
+        });
+        if (result.success) {
+          result.changeIds.forEach(changeId => this.project.changes.delete(changeId));
+        }
+        res.status(result.success ? 200 : 409).json(result);
+      } catch (error: any) {
+        console.error('Error in batch revert:', error);
+        res.status(500).json({ error: error.message || 'Failed to revert changes' });
+      }
+    });
+
+    // API endpoint to export changes as a patch (git apply) or mbox (git am)
+    // Query: changeId, turnId, subagentId or sessionId; format=patch|mbox; json=1 for the PatchExport object
+    this.app.get('/api/export', async (req, res) => {
+      try {
+        const scope = this.parseRevertScope(req.query);
+        if (!scope || 'filePath' in scope) {
+          return res.status(400).json({ error: 'changeId, turnId, subagentId or sessionId is required' });
+        }
+
+        const format = (req.query.format as string) || 'patch';
+        if (format !== 'patch' && format !== 'mbox') {
+          return res.status(400).json({ error: 'format must be patch or mbox' });
+        }
+
+        const sessionId = await this.project.loader.findSessionId(scope);
+        if (!sessionId) {
+          return res.status(404).json({ error: 'Change not found' });
+        }
+
+        const { session } = await this.project.loader.loadSession(sessionId);
+        const result = this.project.exporter.export(session, scope, format);
+
+        if (req.query.json) {
+          return res.json(result);
+        }
+
+        const name = ('changeId' in scope ? scope.changeId
+          : 'turnId' in scope ? scope.turnId
+          : 'subagentId' in scope ? scope.subagentId
+          : sessionId)
+          .replace(/[^\w.-]/g, '_');
+        res.setHeader('Content-Type', format === 'mbox' ? 'application/mbox' : 'text/x-patch');
+        res.setHeader('Content-Disposition', `attachment; filename="${name}.${format}"`);
+        res.send(result.content);
+      } catch (error: any) {
+        console.error('Error exporting changes:', error);
+        res.status(500).json({ error: error.message || 'Failed to export changes' });
+      }
+    });
+
+    // API endpoint to search prompts, replies, commands, file paths and change content
+    // Query: q, plus optional sessionId, file (part of a path), since and until (dates),
+    // type (change type) and limit
+    this.app.get('/api/search', async (req, res) => {
+      try {
+        const query = req.query.q as string;
+        if (!query || !query.trim()) {
+          return res.status(400).json({ error: 'q is required' });
+        }
+
+        const type = req.query.type as string | undefined;
+        if (type && !CHANGE_TYPES.includes(type)) {
+          return res.status(400).json({ error: `type must be one of ${CHANGE_TYPES.join(', ')}` });
+        }
+
+        const since = req.query.since ? new Date(req.query.since as string).getTime() : undefined;
+        const until = req.query.until ? new Date(req.query.until as string).getTime() : undefined;
+        if (Number.isNaN(since) || Number.isNaN(until)) {
+          return res.status(400).json({ error: 'since and until must be dates' });
+        }
+
+        res.json(await this.project.search.search({
+          query,
+          sessionId: req.query.sessionId as string | undefined,
+          file: req.query.file as string | undefined,
+          since,
+          until,
+          type: type as FileChange['type'] | undefined,
+          limit: req.query.limit ? parseInt(req.query.limit as string, 10) || undefined : undefined
+        }));
+      } catch (error: any) {
+        console.error('Error searching sessions:', error);
+        res.status(500).json({ error: error.message || 'Failed to search' });
+      }
+    });
+
+    // API endpoint to list every change to a file across all sessions, oldest first
+    // Query: path
+    this.app.get('/api/file-history', async (req, res) => {
+      try {
+        const filePath = req.query.path as string;
+        if (!filePath) {
+          return res.status(400).json({ error: 'File path is required' });
+        }
+        if (!this.project.contains(filePath)) {
+          return res.status(403).json({ error: 'Access denied' });
+        }
+
+        res.json(await this.loadFileHistory(filePath));
+      } catch (error: any) {
+        console.error('Error getting file history:', error);
+        res.status(500).json({ error: error.message || 'Failed to load file history' });
+      }
+    });
+
+    // API endpoint for the file between two points of its history: before the change
+    // from and after the change to, by default its first and last change
+    // Query: path, from, to
+    this.app.get('/api/file-history/diff', async (req, res) => {
+      try {
+        const filePath = req.query.path as string;
+        if (!filePath) {
+          return res.status(400).json({ error: 'File path is required' });
+        }
+        if (!this.project.contains(filePath)) {
+          return res.status(403).json({ error: 'Access denied' });
+        }
+
+        const history = await this.loadFileHistory(filePath);
+        if (history.entries.length === 0) {
+          return res.status(404).json({ error: 'No changes to this file' });
+        }
+
+        const from = (req.query.from as string) || history.entries[0].change.id;
+        const to = (req.query.to as string) || history.entries[history.entries.length - 1].change.id;
+        res.json(this.project.fileHistory.diffBetween(history, from, to));
+      } catch (error: any) {
+        console.error('Error diffing file history:', error);
+        res.status(500).json({ error: error.message || 'Failed to diff file history' });
+      }
+    });
+
+    // API endpoint to list recent revert operations (newest first)
+    this.app.get('/api/reverts', async (req, res) => {
+      try {
+        res.json(await this.project.tracker.getRevertHistory());
+      } catch (error: any) {
+        console.error('Error getting revert history:', error);
+        res.status(500).json({ error: 'Failed to load revert history' });
+      }
+    });
+
+    // API endpoints to undo (restore) or redo a revert operation
+    this.app.post('/api/reverts/:operationId/restore', async (req, res) => {
+      try {
+        const result = await this.project.tracker.restoreRevert(req.params.operationId);
+        res.status(result.success ? 200 : 409).json(result);
+      } catch (error: any) {
+        console.error('Error restoring revert:', error);
+        res.status(500).json({ error: error.message || 'Failed to restore revert' });
+      }
+    });
+
+    this.app.post('/api/reverts/:operationId/redo', async (req, res) => {
+      try {
+        const result = await this.project.tracker.redoRevert(req.params.operationId);
+        res.status(result.success ? 200 : 409).json(result);
+      } catch (error: any) {
+        console.error('Error redoing revert:', error);
+        res.status(500).json({ error: error.message || 'Failed to redo revert' });
+      }
+    });
+
     // API endpoint to check file existence
     this.app.get('/api/file-exists', async (req, res) => {
       try {
@@ -95,14 +320,12 @@ export class RevertServer {
           return res.status(400).json({ error: 'File path is required' });
         }
 
-        // Security check: ensure file is within current working directory
-        const absolutePath = path.resolve(filePath);
-        const cwd = process.cwd();
-        if (!absolutePath.startsWith(cwd)) {
+        // Security check: ensure file is within the project
+        const absolutePath = path.resolve(this.project.projectPath, filePath);
+        if (!this.project.contains(absolutePath)) {
           return res.status(403).json({ error: 'Access denied' });
         }
 
-        const fs = await import('fs');
         try {
           await fs.promises.access(absolutePath);
           res.json({ exists: true });
@@ -117,13 +340,26 @@ export class RevertServer {
 
   private setupWebSocket() {
     this.wss.on('connection', (ws) => {
-      console.log('Client connected');
+      debug('Client connected');
 
       ws.on('message', async (message) => {
         try {
           const data = JSON.parse(message.toString());
 
           switch (data.type) {
+            case 'getProjects':
+              await this.handleGetProjects(ws);
+              break;
+            case 'selectProject':
+              try {
+                await this.handleSelectProject(data.projectPath);
+              } catch (error: any) {
+                ws.send(JSON.stringify({
+                  type: 'error',
+                  error: error.message || 'Failed to select project'
+                }));
+              }
+              break;
             case 'getSessions':
               await this.handleGetSessions(ws);
               break;
@@ -137,7 +373,22 @@ export class RevertServer {
               await this.handleGetChanges(ws);
               break;
             case 'revert':
-              await this.handleRevert(ws, data.changeId);
+              await this.handleRevert(ws, data.changeId, { workingTreeOnly: data.workingTreeOnly === true });
+              break;
+            case 'previewRevert':
+              await this.handlePreviewRevert(ws, data);
+              break;
+            case 'revertBatch':
+              await this.handleRevertBatch(ws, data);
+              break;
+            case 'getRevertHistory':
+              await this.handleGetRevertHistory(ws);
+              break;
+            case 'restore':
+              await this.handleRestore(ws, 'restore', data.operationId);
+              break;
+            case 'redo':
+              await this.handleRestore(ws, 'redo', data.operationId);
               break;
           }
         } catch (error) {
@@ -150,16 +401,52 @@ export class RevertServer {
       });
 
       ws.on('close', () => {
-        console.log('Client disconnected');
+        debug('Client disconnected');
       });
     });
   }
 
+  private async handleGetProjects(ws: any) {
+    try {
+      ws.send(JSON.stringify({
+        type: 'projects',
+        current: this.project.projectPath,
+        projects: await listProjects(this.claudeDir)
+      }));
+    } catch (error: any) {
+      console.error('Error listing projects:', error);
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: error.message || 'Failed to list projects'
+      }));
+    }
+  }
+
+  // Every client follows the selected project and reloads its sessions
+  private async handleSelectProject(projectPath: unknown) {
+    if (typeof projectPath !== 'string' || !path.isAbsolute(projectPath)) {
+      throw new Error('An absolute projectPath is required');
+    }
+    const stat = await fs.promises.stat(projectPath).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new Error(`Not a directory: ${projectPath}`);
+    }
+
+    const project = await this.selectProject(projectPath);
+    const location = await project.init();
+    const selected = { projectPath: project.projectPath, found: location.found };
+    this.broadcast({
+      type: 'projectSelected',
+      ...selected
+    });
+    return selected;
+  }
+
   private async handleGetSessions(ws: any) {
     try {
-      console.log('Getting sessions metadata...');
-      const sessions = await this.parser.getAllSessionMetadata();
-      console.log(`Found ${sessions.length} sessions`);
+      debug('Getting sessions metadata...');
+      const sessions = await this.project.parser.getAllSessionMetadata();
+      debug(`Found ${sessions.length} sessions`);
 
       ws.send(JSON.stringify({
         type: 'sessions',
@@ -176,25 +463,18 @@ export class RevertServer {
 
   private async handleGetSessionTurns(ws: any, sessionId: string) {
     try {
-      console.log(`Getting turns for session ${sessionId}...`);
-      const sessionWithTurns = await this.parser.getSessionWithTurns(sessionId);
-      console.log(`Found ${sessionWithTurns.turns.length} conversation turns`);
-
-      // Process file changes for each turn
-      for (const turn of sessionWithTurns.turns) {
-        if (turn.fileChanges.length > 0) {
-          const processedChanges = await this.tracker.processChanges(turn.fileChanges);
-          turn.parsedChanges = processedChanges;
+      debug(`Getting turns for session ${sessionId}...`);
+      const sessionWithTurns = await this.project.parser.getSessionWithTurns(sessionId);
+      debug(`Found ${sessionWithTurns.turns.length} conversation turns`);
 
-          // Add to global changes list for revert tracking
-          this.changes = [...this.changes, ...processedChanges];
-        }
-      }
+      // Index for revert tracking
+      this.indexChanges([sessionId], await this.project.loader.processSession(sessionWithTurns));
+      this.rememberLiveSession(sessionWithTurns);
 
       // Debug: log the turns being sent
-      console.log(`Sending ${sessionWithTurns.turns.length} turns:`);
+      debug(`Sending ${sessionWithTurns.turns.length} turns:`);
       for (const turn of sessionWithTurns.turns) {
-        console.log(`  Turn ${turn.id}: "${turn.userMessage}" (${turn.fileChanges.length} file changes)`);
+        debug(`  Turn ${turn.id}: "${turn.userMessage}" (${turn.fileChanges.length} file changes)`);
       }
 
       ws.send(JSON.stringify({
@@ -213,16 +493,17 @@ export class RevertServer {
 
   private async handleGetSessionChanges(ws: any, sessionId: string) {
     try {
-      console.log(`Getting changes for session ${sessionId}...`);
-      const fileChanges = await this.parser.getSessionChanges(sessionId);
-      console.log(`Found ${fileChanges.length} file changes`);
+      debug(`Getting changes for session ${sessionId}...`);
+      const fileChanges = await this.project.parser.getSessionChanges(sessionId);
+      debug(`Found ${fileChanges.length} file changes`);
 
-      console.log('Processing changes...');
-      const processedChanges = await this.tracker.processChanges(fileChanges);
-      console.log(`Processed ${processedChanges.length} changes`);
+      debug('Processing changes...');
+      const laterChanges = await this.project.loader.getLaterChanges([sessionId], fileChanges);
+      const processedChanges = await this.project.tracker.processChanges(fileChanges, laterChanges);
+      debug(`Processed ${processedChanges.length} changes`);
 
-      // Add to global changes list
-      this.changes = [...this.changes, ...processedChanges];
+      // Index for revert tracking
+      this.indexChanges([sessionId], processedChanges);
 
       // Sort changes by timestamp (newest first)
       processedChanges.sort((a, b) =>
@@ -246,23 +527,26 @@ export class RevertServer {
   private async handleGetChanges(ws: any) {
     try {
       // Get and parse changes from Claude logs
-      console.log('Getting file changes...');
-      const fileChanges = await this.parser.getFileChanges();
-      console.log(`Found ${fileChanges.length} file changes`);
+      debug('Getting file changes...');
+      const fileChanges = await this.project.parser.getFileChanges();
+      debug(`Found ${fileChanges.length} file changes`);
+
+      debug('Processing changes...');
+      const processedChanges = await this.project.tracker.processChanges(fileChanges);
+      debug(`Processed ${processedChanges.length} changes`);
 
-      console.log('Processing changes...');
-      this.changes = await this.tracker.processChanges(fileChanges);
-      console.log(`Processed ${this.changes.length} changes`);
+      const sessionIds = [...new Set(processedChanges.map(change => change.sessionId || ''))];
+      this.indexChanges(sessionIds, processedChanges);
 
       // Sort changes by timestamp (newest first)
-      this.changes.sort((a, b) =>
+      processedChanges.sort((a, b) =>
         new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
       );
 
-      console.log('Sending changes to client:', this.changes.length);
+      debug('Sending changes to client:', processedChanges.length);
       ws.send(JSON.stringify({
         type: 'changes',
-        changes: this.changes
+        changes: processedChanges
       }));
     } catch (error: any) {
       console.error('Error getting changes:', error);
@@ -273,22 +557,35 @@ export class RevertServer {
     }
   }
 
-  private async handleRevert(ws: any, changeId: string) {
+  private async handleRevert(ws: any, changeId: string, options: RevertOptions = {}) {
     try {
-      console.log('Handling revert for change:', changeId);
-      const change = this.changes.find(c => c.id === changeId);
+      debug('Handling revert for change:', changeId);
+      const change = this.project.changes.get(changeId);
       if (!change) {
         console.error('Change not found:', changeId);
         throw new Error('Change not found');
       }
+      this.checkInProject(change);
+
+      debug('Found change:', change);
+      const result = await this.project.tracker.revertChange(change, options);
+
+      if (result.outcome === 'conflict') {
+        debug('Revert blocked by conflicts:', result.message);
+        ws.send(JSON.stringify({
+          type: 'revertConflict',
+          changeId,
+          result
+        }));
+        return;
+      }
 
-      console.log('Found change:', change);
-      await this.tracker.revertChange(change);
-      console.log('Revert successful');
-
+      debug('Revert successful');
+      this.project.changes.delete(changeId);
       ws.send(JSON.stringify({
         type: 'revertSuccess',
-        changeId
+        changeId,
+        result
       }));
     } catch (error: any) {
       console.error('Error reverting change:', error);
@@ -299,10 +596,350 @@ export class RevertServer {
     }
   }
 
+  private async handlePreviewRevert(ws: any, data: any) {
+    try {
+      const scope = this.parseRevertScope(data);
+      if (!scope) {
+        throw new Error('changeId, turnId, subagentId, sessionId or filePath is required');
+      }
+
+      debug('Previewing revert for:', scope);
+      const preview = await this.project.tracker.previewRevert(scope, await this.resolveRevertScope(scope));
+
+      ws.send(JSON.stringify({
+        type: 'revertPreview',
+        preview
+      }));
+    } catch (error: any) {
+      console.error('Error previewing revert:', error);
+      ws.send(JSON.stringify({
+        type: 'revertError',
+        error: error.message || 'Failed to preview revert'
+      }));
+    }
+  }
+
+  private async handleRevertBatch(ws: any, data: any) {
+    try {
+      const scope = this.parseRevertScope(data);
+      if (!scope) {
+        throw new Error('changeId, turnId, subagentId, sessionId or filePath is required');
+      }
+
+      debug('Batch revert for:', scope);
+      const result = await this.project.tracker.revertBatch(scope, await this.resolveRevertScope(scope), {
+        workingTreeOnly: data.workingTreeOnly === true
+      });
+      if (result.success) {
+        result.changeIds.forEach(changeId => this.project.changes.delete(changeId));
+      }
+
+      ws.send(JSON.stringify({
+        type: 'batchRevertResult',
+        result
+      }));
+    } catch (error: any) {
+      console.error('Error in batch revert:', error);
+      ws.send(JSON.stringify({
+        type: 'revertError',
+        error: error.message || 'Failed to revert changes'
+      }));
+    }
+  }
+
+  private async handleGetRevertHistory(ws: any) {
+    try {
+      const operations = await this.project.tracker.getRevertHistory();
+      ws.send(JSON.stringify({
+        type: 'revertHistory',
+        operations
+      }));
+    } catch (error: any) {
+      console.error('Error getting revert history:', error);
+      ws.send(JSON.stringify({
+        type: 'error',
+        error: error.message || 'Failed to load revert history'
+      }));
+    }
+  }
+
+  // Without an operationId the most recent revert (restore) or restore (redo) is used
+  private async handleRestore(ws: any, action: 'restore' | 'redo', operationId?: string) {
+    try {
+      debug(`Handling ${action} for revert:`, operationId || 'latest');
+      const result = action === 'restore'
+        ? await this.project.tracker.restoreRevert(operationId)
+        : await this.project.tracker.redoRevert(operationId);
+
+      ws.send(JSON.stringify({
+        type: 'restoreResult',
+        result
+      }));
+    } catch (error: any) {
+      console.error(`Error during ${action}:`, error);
+      ws.send(JSON.stringify({
+        type: 'revertError',
+        error: error.message || `Failed to ${action} revert`
+      }));
+    }
+  }
+
+  private parseRevertScope(params: any): RevertScope | null {
+    if (typeof params?.changeId === 'string' && params.changeId) {
+      return { changeId: params.changeId };
+    }
+    if (typeof params?.turnId === 'string' && params.turnId) {
+      const excludeSubagents = params.excludeSubagents === true || params.excludeSubagents === '1';
+      return excludeSubagents ? { turnId: params.turnId, excludeSubagents } : { turnId: params.turnId };
+    }
+    if (typeof params?.subagentId === 'string' && params.subagentId) {
+      return { subagentId: params.subagentId };
+    }
+    if (typeof params?.sessionId === 'string' && params.sessionId) {
+      return { sessionId: params.sessionId };
+    }
+    if (typeof params?.filePath === 'string' && params.filePath) {
+      if (typeof params.beforeChangeId === 'string' && params.beforeChangeId) {
+        return { filePath: params.filePath, beforeChangeId: params.beforeChangeId };
+      }
+      return { filePath: params.filePath };
+    }
+    return null;
+  }
+
+  // Revertable changes covered by a scope, from the changes loaded so far. Reverting a
+  // file to before a change covers every session that changed it, loaded or not.
+  private async resolveRevertScope(scope: RevertScope): Promise<ParsedChange[]> {
+    const loaded = 'beforeChangeId' in scope && scope.beforeChangeId
+      ? (await this.loadFileHistory(scope.filePath)).entries.map(entry => entry.change)
+      : [...this.project.changes.values()];
+    const changes = this.project.loader.selectChanges(scope, loaded);
+    changes.forEach(change => this.checkInProject(change));
+    return changes;
+  }
+
+  // A file's history across all sessions, whose changes can then be reverted one by one
+  private async loadFileHistory(filePath: string): Promise<FileHistoryResponse> {
+    const history = await this.project.fileHistory.getHistory(filePath);
+    history.entries.forEach(entry => this.project.changes.set(entry.change.id, entry.change));
+    return history;
+  }
+
+  // Reverts only ever write inside the selected project's root
+  private checkInProject(change: ParsedChange) {
+    for (const filePath of [change.filePath, change.newFilePath]) {
+      if (filePath && !this.project.contains(filePath)) {
+        throw new Error(`${filePath} is outside the project ${this.project.projectPath}`);
+      }
+    }
+  }
+
+  private setupLiveUpdates(project: ProjectContext, watcher: LogWatcher) {
+    watcher.on('session', (sessionId: string) => {
+      this.enqueueLiveUpdate(project, () => this.handleSessionAdded(project, sessionId));
+    });
+
+    watcher.on('entries', (sessionId: string, filePath: string, entries: ClaudeLogEntry[]) => {
+      this.enqueueLiveUpdate(project, () => this.handleEntriesAppended(project, sessionId, entries));
+    });
+  }
+
+  // Updates for a project clients have switched away from are dropped
+  private enqueueLiveUpdate(project: ProjectContext, update: () => Promise<void>) {
+    this.liveQueue = this.liveQueue.then(() => project === this.project ? update() : undefined).catch(error => {
+      console.error('Error processing live update:', error);
+    });
+  }
+
+  private async handleSessionAdded(project: ProjectContext, sessionId: string) {
+    const sessions = await project.parser.getAllSessionMetadata();
+    const session = sessions.find(s => s.sessionId === sessionId);
+    if (!session) {
+      return;
+    }
+
+    debug(`New session started: ${sessionId}`);
+    project.liveSessions.set(sessionId, { turnIds: new Set(), changes: new Map(), sideEffects: new Set() });
+    this.broadcast({
+      type: 'sessionAdded',
+      session
+    });
+  }
+
+  // Re-parse the session a tail of entries was appended to and push the turns and
+  // changes clients have not seen yet. A change is pushed again when its status
+  // changes, e.g. from pending to applied once its tool_result is written.
+  private async handleEntriesAppended(project: ProjectContext, sessionId: string, entries: ClaudeLogEntry[]) {
+    const toolUseIds = new Set<string>();
+    let hasToolResults = false;
+    for (const entry of entries) {
+      if (Array.isArray(entry.message?.content)) {
+        for (const content of entry.message!.content) {
+          if (content.type === 'tool_use' && content.id) {
+            toolUseIds.add(content.id);
+          } else if (content.type === 'tool_result') {
+            hasToolResults = true;
+          }
+        }
+      }
+    }
+
+    // Prompts and text replies alone do not show up until a change is made
+    if (toolUseIds.size === 0 && !hasToolResults) {
+      return;
+    }
+
+    const { session, changes } = await project.loader.loadSession(sessionId);
+    this.indexChanges([sessionId], changes, project);
+
+    let state = project.liveSessions.get(sessionId);
+    if (!state) {
+      // First activity seen in this session: everything but the appended changes was already there
+      state = this.snapshotLiveSession(session, toolUseIds);
+      project.liveSessions.set(sessionId, state);
+    }
+
+    // A rewind or an edited prompt moved turns clients have shown onto an abandoned branch
+    const abandonedTurnIds = session.abandonedBranches.flatMap(branch => branch.turns.map(turn => turn.id));
+    if (abandonedTurnIds.some(turnId => state!.turnIds.has(turnId))) {
+      debug(`Live: conversation ${sessionId} was rewound`);
+      project.liveSessions.set(sessionId, this.snapshotLiveSession(session, new Set()));
+      this.broadcast({
+        type: 'sessionRewound',
+        sessionId,
+        session
+      });
+      return;
+    }
+
+    for (const turn of session.turns) {
+      const changes = turn.parsedChanges || [];
+
+      const sideEffects = turn.sideEffects || [];
+
+      if (!state.turnIds.has(turn.id)) {
+        state.turnIds.add(turn.id);
+        changes.forEach(change => state!.changes.set(change.id, change.status));
+        sideEffects.forEach(sideEffect => state!.sideEffects.add(sideEffect.id));
+        debug(`Live: new turn ${turn.id} (${changes.length} changes)`);
+        this.broadcast({
+          type: 'turnAdded',
+          sessionId,
+          turn
+        });
+        continue;
+      }
+
+      for (const change of changes) {
+        if (state.changes.get(change.id) === change.status) {
+          continue;
+        }
+        state.changes.set(change.id, change.status);
+        debug(`Live: change ${change.id} in ${turn.id} is ${change.status}`);
+        this.broadcast({
+          type: 'changeAdded',
+          sessionId,
+          turnId: turn.id,
+          change,
+          subagents: turn.subagents || []
+        });
+      }
+
+      for (const sideEffect of sideEffects) {
+        if (state.sideEffects.has(sideEffect.id)) {
+          continue;
+        }
+        state.sideEffects.add(sideEffect.id);
+        debug(`Live: side effect ${sideEffect.id} in ${turn.id}`);
+        this.broadcast({
+          type: 'sideEffectAdded',
+          sessionId,
+          turnId: turn.id,
+          sideEffect
+        });
+      }
+    }
+  }
+
+  // Remember a session as sent to clients
+  private rememberLiveSession(session: SessionWithTurns) {
+    this.project.liveSessions.set(session.sessionId, this.snapshotLiveSession(session, new Set()));
+  }
+
+  private snapshotLiveSession(session: SessionWithTurns, excludeIds: Set<string>): LiveSessionState {
+    const state: LiveSessionState = { turnIds: new Set(), changes: new Map(), sideEffects: new Set() };
+
+    for (const turn of session.turns) {
+      const changes = (turn.parsedChanges || []).filter(change => !excludeIds.has(change.id));
+      const sideEffects = (turn.sideEffects || []).filter(sideEffect => !excludeIds.has(sideEffect.id));
+      if (changes.length > 0 || sideEffects.length > 0) {
+        state.turnIds.add(turn.id);
+      }
+      changes.forEach(change => state.changes.set(change.id, change.status));
+      sideEffects.forEach(sideEffect => state.sideEffects.add(sideEffect.id));
+    }
+
+    return state;
+  }
+
+  private broadcast(message: any) {
+    const payload = JSON.stringify(message);
+    for (const client of this.wss.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(payload);
+      }
+    }
+  }
+
+  // Replace the indexed changes of the given sessions with freshly processed ones,
+  // so changes reverted since the last load do not linger
+  private indexChanges(sessionIds: string[], changes: ParsedChange[], project: ProjectContext = this.project) {
+    for (const [id, change] of project.changes) {
+      if (sessionIds.includes(change.sessionId || '')) {
+        project.changes.delete(id);
+      }
+    }
+
+    for (const change of changes) {
+      project.changes.set(change.id, change);
+    }
+  }
+
+  // Switch every client to a project. Projects keep their loaded state, so switching
+  // back is cheap; only the selected project's logs are watched.
+  private async selectProject(projectPath: string): Promise<ProjectContext> {
+    const resolved = path.resolve(projectPath);
+    let project = this.projects.get(resolved);
+    if (!project) {
+      project = new ProjectContext({ projectPath: resolved, claudeDir: this.claudeDir });
+      this.projects.set(resolved, project);
+    }
+
+    const location = await project.init();
+    if (project === this.project && project.watcher) {
+      return project;
+    }
+
+    this.project.watcher?.stop();
+    this.project.watcher = null;
+    this.project = project;
+    project.liveSessions.clear();
+
+    if (!location.found) {
+      console.log(describeProjectLocation(location));
+    }
+    // Watch where the logs are expected even if nothing is there yet
+    project.watcher = new LogWatcher(location.logDir);
+    this.setupLiveUpdates(project, project.watcher);
+    await project.watcher.start();
+
+    console.log(`Showing project ${project.projectPath}`);
+    return project;
+  }
+
   async start() {
-    // Initialize the change tracker
-    await this.tracker.init();
-    
+    await this.selectProject(this.project.projectPath);
+
     return new Promise((resolve) => {
       this.server.listen(this.port, () => {
         console.log(`Claude Revert server running on http://localhost:${this.port}`);
@@ -312,7 +949,8 @@ export class RevertServer {
   }
 
   stop() {
+    this.project.watcher?.stop();
     this.server.close();
     this.wss.close();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SessionIndexEntry } from './types.js';
+
+// Bump when SessionIndexEntry changes shape or what counts as a change; older caches are discarded
+const INDEX_VERSION = 9;
+
+interface IndexFile {
+  version: number;
+  sessions: Record<string, SessionIndexEntry>;
+}
+
+// Persistent per-project cache of what has been parsed out of each session file,
+// stored in ~/.crevr/index/<project log dir>.json
+export class SessionIndex {
+  private indexFile: string;
+  private sessions: Map<string, SessionIndexEntry> | null = null;
+  private dirty = false;
+
+  constructor(projectDirName: string) {
+    this.indexFile = path.join(os.homedir(), '.crevr', 'index', `${projectDirName}.json`);
+  }
+
+  async get(sessionId: string): Promise<SessionIndexEntry | undefined> {
+    const sessions = await this.load();
+    return sessions.get(sessionId);
+  }
+
+  async set(entry: SessionIndexEntry): Promise<void> {
+    const sessions = await this.load();
+    sessions.set(entry.sessionId, entry);
+    this.dirty = true;
+  }
+
+  // Forget sessions whose files are gone
+  async retain(sessionIds: string[]): Promise<void> {
+    const sessions = await this.load();
+    for (const sessionId of [...sessions.keys()]) {
+      if (!sessionIds.includes(sessionId)) {
+        sessions.delete(sessionId);
+        this.dirty = true;
+      }
+    }
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty || !this.sessions) {
+      return;
+    }
+
+    const data: IndexFile = {
+      version: INDEX_VERSION,
+      sessions: Object.fromEntries(this.sessions)
+    };
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.indexFile), { recursive: true });
+      const tempFile = `${this.indexFile}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempFile, JSON.stringify(data));
+      await fs.promises.rename(tempFile, this.indexFile);
+      this.dirty = false;
+    } catch (error) {
+      // The index is only a cache, a failed save just means parsing again next time
+      console.error('Error saving session index:', error);
+    }
+  }
+
+  private async load(): Promise<Map<string, SessionIndexEntry>> {
+    if (this.sessions) {
+      return this.sessions;
+    }
+
+    this.sessions = new Map();
+    try {
+      const data: IndexFile = JSON.parse(await fs.promises.readFile(this.indexFile, 'utf-8'));
+      if (data.version === INDEX_VERSION) {
+        this.sessions = new Map(Object.entries(data.sessions));
+      }
+    } catch (error) {
+      // Missing or unreadable cache: start empty
+    }
+
+    return this.sessions;
+  }
+}
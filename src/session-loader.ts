@@ -0,0 +1,113 @@
+import * as path from 'path';
+import { ClaudeLogParser } from './parser.js';
+import { ChangeTracker } from './change-tracker.js';
+import { FileChange, ParsedChange, RevertScope, SessionWithTurns } from './types.js';
+import { debug } from './debug.js';
+
+// Loads sessions into revertable changes the same way for the web server and the CLI
+export class SessionLoader {
+  private parser: ClaudeLogParser;
+  private tracker: ChangeTracker;
+  private projectPath: string;
+  // Files of each conversation loaded so far, so a session scope covers all of them
+  private conversations: Map<string, string[]> = new Map();
+
+  constructor(parser: ClaudeLogParser, tracker: ChangeTracker, projectPath: string = process.cwd()) {
+    this.parser = parser;
+    this.tracker = tracker;
+    this.projectPath = path.resolve(projectPath);
+  }
+
+  async loadSession(sessionId: string): Promise<{ session: SessionWithTurns; changes: ParsedChange[] }> {
+    const session = await this.parser.getSessionWithTurns(sessionId);
+    const changes = await this.processSession(session);
+    return { session, changes };
+  }
+
+  // Process the whole session at once so file content can be replayed across turns,
+  // together with what later sessions did to the same files. Fills in turn.parsedChanges,
+  // also for the turns of abandoned branches.
+  async processSession(session: SessionWithTurns): Promise<ParsedChange[]> {
+    const allTurns = [...session.turns, ...session.abandonedBranches.flatMap(branch => branch.turns)];
+    const allFileChanges = allTurns.flatMap(turn => turn.fileChanges);
+    this.conversations.set(session.sessionId, session.sessionIds);
+    const laterChanges = await this.getLaterChanges(session.sessionIds, allFileChanges);
+    if (laterChanges.length > 0) {
+      debug(`Found ${laterChanges.length} later changes to the same files`);
+    }
+
+    const processedChanges = await this.tracker.processChanges(allFileChanges, laterChanges);
+    const processedById = new Map(processedChanges.map(change => [change.id, change]));
+
+    for (const turn of allTurns) {
+      turn.parsedChanges = turn.fileChanges
+        .map(change => processedById.get(change.id))
+        .filter((change): change is ParsedChange => change !== undefined);
+    }
+
+    return processedChanges;
+  }
+
+  async getLaterChanges(sessionIds: string[], changes: FileChange[]): Promise<FileChange[]> {
+    if (changes.length === 0) {
+      return [];
+    }
+
+    const filePaths = [...new Set(changes.map(change => change.filePath))];
+    const since = changes.reduce((earliest, change) =>
+      change.timestamp < earliest ? change.timestamp : earliest, changes[0].timestamp);
+    return this.parser.getLaterChanges(sessionIds, filePaths, since);
+  }
+
+  // Session a change, turn, subagent or session scope belongs to. A file path can be in
+  // any session.
+  async findSessionId(scope: RevertScope): Promise<string | null> {
+    if ('sessionId' in scope) {
+      return scope.sessionId;
+    }
+    if ('turnId' in scope) {
+      return scope.turnId.match(/^(.+)-turn-\d+$/)?.[1] || null;
+    }
+    if ('changeId' in scope) {
+      return this.parser.findSessionForChange(scope.changeId);
+    }
+    if ('subagentId' in scope) {
+      return this.parser.findSessionForSubagent(scope.subagentId);
+    }
+    return null;
+  }
+
+  // Applied changes covered by a scope. Those that cannot be reverted are kept, so a
+  // revert of the scope fails rather than leaving some of them on disk.
+  selectChanges(scope: RevertScope, changes: ParsedChange[]): ParsedChange[] {
+    let matches: ParsedChange[];
+
+    if ('changeId' in scope) {
+      matches = changes.filter(c => c.id === scope.changeId);
+    } else if ('turnId' in scope) {
+      matches = changes.filter(c => c.turnId === scope.turnId && !(scope.excludeSubagents && c.subagentId));
+    } else if ('subagentId' in scope) {
+      matches = changes.filter(c => c.subagentId === scope.subagentId);
+    } else if ('sessionId' in scope) {
+      const sessionIds = this.conversations.get(scope.sessionId) || [scope.sessionId];
+      matches = changes.filter(c => sessionIds.some(sessionId => sessionId === c.sessionId));
+    } else if (scope.beforeChangeId) {
+      // changes are a file history: every change from that one on, renames to the file included
+      const index = changes.findIndex(c => c.id === scope.beforeChangeId);
+      if (index === -1) {
+        throw new Error('Change not found');
+      }
+      matches = changes.slice(index);
+    } else {
+      // Relative paths are relative to the project, as in the file history
+      const filePath = path.resolve(this.projectPath, scope.filePath);
+      matches = changes.filter(c => path.resolve(c.filePath) === filePath);
+    }
+
+    if (matches.length === 0) {
+      throw new Error('Change not found');
+    }
+
+    return matches.filter(change => change.status === 'applied');
+  }
+}
@@ -0,0 +1,206 @@
+import { ClaudeLogParser } from './parser.js';
+import { oneLine } from './text.js';
+import {
+  ConversationTurn,
+  FileChange,
+  SearchField,
+  SearchOptions,
+  SearchResponse,
+  SearchResult,
+  SessionMetadata,
+  SessionWithTurns
+} from './types.js';
+
+const DEFAULT_LIMIT = 50;
+// Characters shown on each side of a match
+const SNIPPET_CONTEXT = 60;
+// Length of the prompt shown with each result
+const PROMPT_LENGTH = 100;
+
+// The searchable text of a turn (prompt, reply, commands) or of one change (path, content),
+// with where each field starts in it
+interface SearchDocument {
+  sessionId: string;
+  turn: ConversationTurn;
+  change?: FileChange;
+  text: string;
+  sections: Array<{ field: SearchField; start: number }>;
+}
+
+// Full-text search over what the parser extracts from every session: prompts, Claude's
+// replies, Bash commands, changed file paths and the text changes removed and added.
+// Sessions are parsed once and parsed again only when they have new activity.
+export class SessionSearch {
+  private parser: ClaudeLogParser;
+  // Documents per conversation, with the activity they were built from
+  private conversations: Map<string, { version: string; documents: SearchDocument[] }> = new Map();
+
+  constructor(parser: ClaudeLogParser) {
+    this.parser = parser;
+  }
+
+  async search(options: SearchOptions): Promise<SearchResponse> {
+    const terms = parseQuery(options.query).map(termPattern);
+    if (terms.length === 0) {
+      return { query: options.query, total: 0, results: [] };
+    }
+
+    const sessions = (await this.parser.getAllSessionMetadata())
+      .filter(session => !options.sessionId || session.sessionIds.includes(options.sessionId));
+
+    const results: SearchResult[] = [];
+    for (const document of (await this.getDocuments(sessions)).flat()) {
+      const result = this.match(document, terms, options);
+      if (result) {
+        results.push(result);
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    return {
+      query: options.query,
+      total: results.length,
+      results: results.slice(0, options.limit || DEFAULT_LIMIT)
+    };
+  }
+
+  // Documents of each session, parsing only those with activity since they were built
+  private async getDocuments(sessions: SessionMetadata[]): Promise<SearchDocument[][]> {
+    const version = (session: SessionMetadata) => `${session.mtime}:${session.sessionIds.join(',')}`;
+    const stale = sessions.filter(session => this.conversations.get(session.sessionId)?.version !== version(session));
+
+    if (stale.length > 0) {
+      const parsed = await this.parser.getSessionsWithTurns(stale.map(session => session.sessionId));
+      for (const session of stale) {
+        const turns = parsed.find(conversation => conversation.sessionId === session.sessionId);
+        this.conversations.set(session.sessionId, {
+          version: version(session),
+          documents: turns ? this.buildDocuments(turns) : []
+        });
+      }
+    }
+
+    return sessions.map(session => this.conversations.get(session.sessionId)!.documents);
+  }
+
+  // One document per turn of the current branch and one per change in it
+  private buildDocuments(session: SessionWithTurns): SearchDocument[] {
+    const documents: SearchDocument[] = [];
+
+    for (const turn of session.turns) {
+      documents.push(createDocument(session.sessionId, turn, undefined, [
+        { field: 'prompt', text: turn.userMessageFull || turn.userMessage },
+        { field: 'assistant', text: turn.assistantMessage || '' },
+        { field: 'command', text: (turn.sideEffects || []).map(sideEffect => sideEffect.command).join('\n') }
+      ]));
+
+      for (const change of turn.fileChanges) {
+        documents.push(createDocument(session.sessionId, turn, change, [
+          { field: 'filePath', text: [change.filePath, change.newFilePath].filter(Boolean).join('\n') },
+          { field: 'diff', text: changeText(change) }
+        ]));
+      }
+    }
+
+    return documents;
+  }
+
+  private match(document: SearchDocument, terms: RegExp[], options: SearchOptions): SearchResult | null {
+    const { turn, change } = document;
+    const timestamp = change?.timestamp || turn.timestamp;
+    const time = new Date(timestamp).getTime();
+    if ((options.since !== undefined && time < options.since) || (options.until !== undefined && time > options.until)) {
+      return null;
+    }
+
+    // A turn only counts for a file or change type when it has a matching change
+    if (options.file || options.type) {
+      const changes = change ? [change] : turn.fileChanges;
+      const matches = changes.some(c =>
+        (!options.file || c.filePath.includes(options.file) || !!c.newFilePath?.includes(options.file)) &&
+        (!options.type || c.type === options.type)
+      );
+      if (!matches) {
+        return null;
+      }
+    }
+
+    // Matched in the text itself, so offsets hold for characters whose case changes length
+    let score = 0;
+    let first = -1;
+    let firstLength = 0;
+    for (const term of terms) {
+      const matches = [...document.text.matchAll(term)];
+      if (matches.length === 0) {
+        return null;
+      }
+      score += matches.length;
+      const index = matches[0].index!;
+      if (first === -1 || index < first) {
+        first = index;
+        firstLength = matches[0][0].length;
+      }
+    }
+
+    const sectionIndex = document.sections.findIndex((s, i) => i === document.sections.length - 1 || document.sections[i + 1].start > first);
+    const section = document.sections[sectionIndex];
+    const sectionEnd = document.sections[sectionIndex + 1]?.start ?? document.text.length;
+    return {
+      sessionId: document.sessionId,
+      turnId: turn.id,
+      changeId: change?.id,
+      field: section.field,
+      timestamp,
+      userMessage: oneLine(turn.userMessage, PROMPT_LENGTH),
+      filePath: change?.filePath,
+      changeType: change?.type,
+      snippet: snippet(document.text.substring(section.start, sectionEnd), first - section.start, firstLength),
+      score
+    };
+  }
+}
+
+// Terms of a query; "quoted phrases" stay one term
+function parseQuery(query: string): string[] {
+  return (query.match(/"[^"]+"|\S+/g) || [])
+    .map(term => term.replace(/^"|"$/g, '').trim())
+    .filter(term => term.length > 0);
+}
+
+// Every occurrence of a term, in any case
+function termPattern(term: string): RegExp {
+  return new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'giu');
+}
+
+function createDocument(
+  sessionId: string,
+  turn: ConversationTurn,
+  change: FileChange | undefined,
+  fields: Array<{ field: SearchField; text: string }>
+): SearchDocument {
+  let text = '';
+  const sections: SearchDocument['sections'] = [];
+  for (const { field, text: fieldText } of fields) {
+    sections.push({ field, start: text.length });
+    text += fieldText + '\n';
+  }
+  return { sessionId, turn, change, text, sections };
+}
+
+// The text a change removed and added, as far as the log records it
+function changeText(change: FileChange): string {
+  if (change.notebookEdit) {
+    return change.notebookEdit.newSource;
+  }
+  if (change.changes) {
+    return change.changes.map(edit => `${edit.oldString || ''}\n${edit.newString || ''}`).join('\n');
+  }
+  return change.newContent || '';
+}
+
+// The text of a field around a match of length characters at index
+function snippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return (start > 0 ? '…' : '') + text.substring(start, end).replace(/\s+/g, ' ').trim() + (end < text.trimEnd().length ? '…' : '');
+}
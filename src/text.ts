@@ -0,0 +1,5 @@
+// Text collapsed onto one line and cut to length characters, for listings
+export function oneLine(text: string, length: number): string {
+  const line = text.trim().replace(/\s+/g, ' ');
+  return line.length > length ? line.substring(0, length) + '...' : line;
+}
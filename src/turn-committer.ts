@@ -0,0 +1,113 @@
+import { GitRepository } from './git.js';
+import { PatchExporter } from './patch-export.js';
+import { CommitTurnsResult, SessionWithTurns } from './types.js';
+import { debug } from './debug.js';
+
+export interface CommitTurnsOptions {
+  branch?: string;  // Default: claude/<session id prefix>
+  base?: string;  // Revision the branch starts from, default HEAD
+  force?: boolean;  // Move the branch if it already exists
+  authorName?: string;
+  authorEmail?: string;
+}
+
+// Records a session as git history: each conversation turn becomes a commit on a new
+// branch, authored and dated as the turn. Commits are built with plumbing commands only,
+// so the working tree, index and current branch are not touched, and replaying the
+// same session onto the same base gives the same commit ids.
+export class TurnCommitter {
+  private git: GitRepository;
+  private cwd: string;
+
+  constructor(cwd: string = process.cwd()) {
+    this.cwd = cwd;
+    this.git = new GitRepository(cwd);
+  }
+
+  async commitTurns(session: SessionWithTurns, options: CommitTurnsOptions = {}): Promise<CommitTurnsResult> {
+    if (!(await this.git.isRepository())) {
+      throw new Error(`${this.cwd} is not inside a git repository`);
+    }
+
+    const base = await this.git.resolveCommit(options.base || 'HEAD');
+    if (!base) {
+      throw new Error(`Unknown base revision: ${options.base || 'HEAD'}`);
+    }
+
+    const result: CommitTurnsResult = {
+      sessionId: session.sessionId,
+      branch: options.branch || `claude/${session.sessionId.substring(0, 8)}`,
+      base,
+      commits: [],
+      skipped: [],
+      warnings: []
+    };
+
+    // Paths relative to the repository root, which is what trees are made of
+    const exporter = new PatchExporter(await this.git.topLevel());
+    const turns = exporter.turnFiles(session, { sessionId: session.sessionId }, result.skipped);
+    if (turns.length === 0) {
+      throw new Error('No applied changes to commit');
+    }
+
+    let parent = base;
+    const seen = new Set<string>();
+
+    for (const { turn, files } of turns) {
+      const contents = new Map<string, string | null>();
+
+      for (const [filePath, state] of files) {
+        const origin = state.renamedFrom ?? filePath;
+        // The first commit touching a file also carries whatever differed from the base
+        // when Claude started; say so, since it was not Claude's doing
+        if (!seen.has(origin) && state.before !== undefined) {
+          seen.add(origin);
+          const baseContent = await this.git.readFileAt(base, origin);
+          if (baseContent !== state.before) {
+            result.warnings.push(`${origin} differed from ${base.substring(0, 7)} before ${turn.id}; the difference is included in its commit`);
+          }
+        }
+
+        let after = state.after;
+        if (after === undefined && state.renamedFrom) {
+          // Only moved: carry the file over as the previous commit has it
+          after = await this.git.readFileAt(parent, state.renamedFrom);
+          if (after === null) {
+            result.warnings.push(`${state.renamedFrom} is not in the commit before ${turn.id}, so its move to ${filePath} is left out`);
+            continue;
+          }
+        }
+        if (after === undefined) {
+          // Moved back to where it was
+          continue;
+        }
+        if (state.renamedFrom) {
+          contents.set(state.renamedFrom, null);
+          seen.add(state.renamedFrom);
+        }
+        contents.set(filePath, after);
+        seen.add(filePath);
+      }
+
+      const tree = await this.git.writeTree(parent, contents);
+      const message = exporter.commitMessage(session, turn);
+      parent = await this.git.commitTree(tree, parent, `${message.subject}\n\n${message.body}\n`, {
+        name: options.authorName || 'Claude',
+        email: options.authorEmail || 'noreply@anthropic.com',
+        date: turn.timestamp
+      });
+
+      result.commits.push({
+        turnId: turn.id,
+        commit: parent,
+        subject: message.subject,
+        files: [...contents.keys()]
+      });
+    }
+
+    await this.git.setBranch(result.branch, parent, options.force);
+    debug(`Committed ${result.commits.length} turns to ${result.branch}`);
+
+    return result;
+  }
+}
@@ -1,6 +1,7 @@
 export interface ClaudeLogEntry {
   type: string;
   timestamp: string;
+  uuid?: string;
   message?: {
     // Content can be:
     // - string: direct user text message
@@ -9,33 +10,108 @@ export interface ClaudeLogEntry {
     // - array with type='tool_use': assistant tool invocation
     content: string | Array<{
       type: string;
+      id?: string;           // For tool_use entries
       name?: string;
       input?: any;
       text?: string;
       tool_use_id?: string;  // For tool_result entries
+      content?: any;         // tool_result payload: string or array of text blocks
+      is_error?: boolean;    // Set on tool_result when the tool call failed
     }>;
   };
+  toolUseResult?: any;  // Structured tool result attached to tool_result user entries
+  parentUuid?: string | null;
+  logicalParentUuid?: string | null;  // Parent across a compaction, where parentUuid is null
+  sessionId?: string;
+  cwd?: string;
+  isSidechain?: boolean;  // Written by a Task subagent rather than the main conversation
+  agentId?: string;  // Subagent that wrote a sidechain entry
+  subtype?: string;  // Kind of system entry, e.g. compact_boundary
+  isCompactSummary?: boolean;  // User entry holding the summary a compaction replaced the history with
+  compactMetadata?: { trigger?: string; preTokens?: number };
+  summary?: string;  // Text of a summary entry
+  leafUuid?: string;  // Last message of the conversation a summary entry describes
   tool?: string;
   parameters?: any;
   result?: any;
   error?: any;
 }
 
+// Outcome of a tool_use, taken from its matching tool_result:
+// - applied: the tool ran and the file was changed
+// - failed: the tool reported an error (e.g. old_string not found)
+// - rejected: the user declined the tool use or permission was not granted
+// - pending: no tool_result was recorded (yet)
+// - abandoned: made on a conversation branch that was rewound or edited away since
+export type ChangeStatus = 'applied' | 'failed' | 'rejected' | 'pending' | 'abandoned';
+
+export interface ToolResult {
+  toolUseId: string;
+  isError: boolean;
+  text: string;
+  payload?: any;  // Structured toolUseResult, when Claude recorded one
+}
+
+// Where the pre-change file content of a ParsedChange was recovered from:
+// - tool-result: the originalFile payload Claude recorded with the tool result
+// - replay: replaying earlier changes in the same log forwards
+// - disk: undoing later changes backwards from the current file on disk
+// - git: the file as committed in HEAD (only used for the earliest change)
+// - unknown: none of the above worked
+export type ContentSource = 'tool-result' | 'replay' | 'disk' | 'git' | 'unknown';
+
 export interface SessionMetadata {
   sessionId: string;
   sessionFile: string;
   timestamp: string;
-  mtime: number;  // File modification time (used to determine latest session)
+  mtime: number;  // Last activity in the conversation (used to determine latest session)
   userMessage: string;
   fileCount: number;
   isLatest: boolean;
+  // Files of the logical conversation, oldest first, ending with sessionId. A resumed or
+  // compacted conversation continues in a new file.
+  sessionIds: string[];
 }
 
-export interface FileChange {
+// A user prompt that starts a conversation turn, as recorded in the session index
+export interface ChangeSummary {
   id: string;
+  type: FileChange['type'];
+  filePath: string;
+  newFilePath?: string;  // For renames
+  timestamp: string;
+  turnNumber: number;  // 0 for changes before the first user prompt
+}
+
+// What has been parsed out of a session file so far. Files are append-only,
+// so when one grows only the bytes after offset need to be parsed.
+export interface SessionIndexEntry {
+  sessionId: string;
+  sessionFile: string;
+  offset: number;  // Bytes parsed so far
+  size: number;
+  mtime: number;
+  tailHash: string;  // Hash of the bytes just before offset, to detect rewritten files
+  timestamp: string;  // Timestamp of the first entry
+  userMessage: string;  // First user message, truncated
+  fileCount: number;
+  turnCount: number;  // User prompts so far
+  changes: ChangeSummary[];
+  subagentIds: string[];  // Task tool_use ids of the subagents started in this file
+  parentSessionId?: string;  // Set for subagent logs, which are not sessions of their own
+  continuesFrom?: string;  // uuid in another file this file's conversation continues from
+  lastUuid?: string;  // Last message of the main conversation
+  lastTimestamp?: string;  // Timestamp of the last message
+}
+
+export interface FileChange {
+  id: string;  // The tool_use id
+  legacyIds?: string[];  // Ids older versions gave this change, for reverted-changes.json
   timestamp: string;
-  type: 'create' | 'edit' | 'delete' | 'write';
+  type: 'create' | 'edit' | 'delete' | 'write' | 'rename' | 'notebook';
   filePath: string;
+  newFilePath?: string;  // Where a rename moved the file to
+  notebookEdit?: NotebookCellEdit;  // For notebook changes
   oldContent?: string;
   newContent?: string;
   changes?: Array<{
@@ -47,24 +123,68 @@ export interface FileChange {
   sessionFile?: string;
   isLatestSession?: boolean;
   userMessage?: string;
+  toolUseId?: string;
+  status: ChangeStatus;
+  statusMessage?: string;  // Error or rejection text from the tool_result
+  originalContent?: string;  // Full file before the change, when the tool result recorded it
+  turnId?: string;  // Which conversation turn this change belongs to
+  subagentId?: string;  // Subagent run (see SubagentRun) that made the change, if any
+}
+
+// A NotebookEdit: one cell of a Jupyter notebook replaced, inserted or deleted
+export interface NotebookCellEdit {
+  cellId?: string;  // The cell replaced or deleted, or the one an insert follows (none: insert first)
+  newCellId?: string;  // Id Claude gave an inserted cell, when the tool result records it
+  editMode: 'replace' | 'insert' | 'delete';
+  cellType?: 'code' | 'markdown';
+  newSource: string;
 }
 
 export interface ParsedChange {
   id: string;
+  legacyIds?: string[];
   timestamp: string;
-  type: 'create' | 'edit' | 'delete' | 'write';
+  type: 'create' | 'edit' | 'delete' | 'write' | 'rename' | 'notebook';
   filePath: string;
-  diff?: string;
-  oldContent?: string;
-  newContent?: string;
+  newFilePath?: string;
+  notebookEdit?: NotebookCellEdit;
+  diff?: string;  // For notebook changes, of the edited cell's source
+  oldContent?: string;  // Full file before the change
+  newContent?: string;  // Full file after the change
+  oldContentSource?: ContentSource;
   oldString?: string;  // For edit changes
   newString?: string;  // For edit changes
   canRevert: boolean;
+  status: ChangeStatus;
+  statusMessage?: string;
   sessionId?: string;
   sessionFile?: string;
   isLatestSession?: boolean;
   userMessage?: string;
   turnId?: string;  // Which conversation turn this change belongs to
+  subagentId?: string;
+  laterChanges?: LaterChange[];  // Applied changes from later sessions to the same file
+  revertCheck?: RevertResult;  // Outcome of reverting this change alone on top of the current file
+  gitState?: ChangeGitState;  // Unset outside a git repository
+  fileGitStatus?: FileGitStatus;
+}
+
+// Where the lines a change wrote stand in git: only in the working tree, staged in the
+// index, committed in HEAD, or no longer in the working tree because they were edited since
+export type ChangeGitState = 'uncommitted' | 'staged' | 'committed' | 'modified';
+
+// git status of a whole file
+export interface FileGitStatus {
+  tracked: boolean;
+  staged: boolean;  // Index differs from HEAD
+  unstaged: boolean;  // Working tree differs from the index
+}
+
+// A change made to the same file in a later session, which a revert has to be rebased over
+export interface LaterChange {
+  changeId: string;
+  sessionId?: string;
+  timestamp: string;
 }
 
 // Conversation turn: a user message and the AI's response with file changes
@@ -74,11 +194,39 @@ export interface ConversationTurn {
   userMessage: string;
   userMessageFull?: string;  // Full user message (not truncated)
   assistantMessage?: string;  // Consolidated AI text response
-  fileChanges: FileChange[];
+  fileChanges: FileChange[];  // Including the changes of its subagents, in log order
   parsedChanges?: ParsedChange[];  // Processed changes with diffs
+  subagents?: SubagentRun[];
+  sideEffects?: BashSideEffect[];  // Bash commands that changed files in ways not tracked as changes
   isLatestSession: boolean;
 }
 
+// A Bash command that may have changed files beyond the deletes and renames recognized
+// as changes. It cannot be reverted, so a review of the turn is incomplete without it.
+export interface BashSideEffect {
+  id: string;  // The tool_use id
+  timestamp: string;
+  command: string;
+  description?: string;  // What Claude said the command does
+  cwd?: string;
+  output: string;  // What the command printed, truncated
+  status: ChangeStatus;
+  effects: string[];  // e.g. "writes dist/out.js", "sed -i edits files in place"
+  paths: string[];  // Files the effects touch, where the command names them
+  subagentId?: string;
+}
+
+// A Task subagent the turn started, whose sidechain made changes of its own
+export interface SubagentRun {
+  id: string;  // The Task tool_use id, or the sidechain's agent id if no invocation matched
+  agentId?: string;
+  description: string;
+  prompt: string;
+  subagentType?: string;
+  timestamp: string;
+  changeIds: string[];
+}
+
 // Session with conversation turns
 export interface SessionWithTurns {
   sessionId: string;
@@ -86,5 +234,273 @@ export interface SessionWithTurns {
   timestamp: string;
   mtime: number;
   isLatest: boolean;
+  sessionIds: string[];  // Files the conversation spans, oldest first (see SessionMetadata)
+  turns: ConversationTurn[];  // The conversation's current branch
+  abandonedBranches: ConversationBranch[];
+  boundaries: ConversationBoundary[];
+}
+
+// Where a conversation was compacted, or resumed in a new session file
+export interface ConversationBoundary {
+  kind: 'compaction' | 'resume';
+  sessionId: string;  // Session file the conversation continues in
+  timestamp: string;
+  summary?: string;  // What Claude kept of the history before it
+  trigger?: string;  // manual or auto, for compactions
+  beforeTurnId: string | null;  // First turn after the boundary, null if none has changes yet
+}
+
+// Turns of a conversation branch that was rewound or whose prompt was edited
+export interface ConversationBranch {
+  id: string;  // uuid of the branch's first entry
+  forkTurnId: string | null;  // Turn on the current branch it forked from, if any
+  timestamp: string;
   turns: ConversationTurn[];
-}
\ No newline at end of file
+}
+
+// A region where reverting a change and the current file disagree. Lines come from
+// a three-way merge: base is the file right after the change, ours the file on disk
+// now, theirs the content the revert would restore.
+export interface MergeConflict {
+  oursStart: number;  // 1-based line in the current file
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+// - reverted: the file was exactly as the change left it
+// - merged: the file was modified since, but the revert merged cleanly
+// - conflict: nothing was written, see conflicts
+export type RevertOutcome = 'reverted' | 'merged' | 'conflict';
+
+export interface RevertResult {
+  changeId: string;
+  filePath: string;
+  outcome: RevertOutcome;
+  conflicts: MergeConflict[];
+  message?: string;
+}
+
+// What reverting a change would do, computed without touching disk
+export interface RevertPlan {
+  result: RevertResult;
+  currentContent: string | null;  // File on disk now, null if missing
+  content: string | null;  // File after the revert, null if the revert deletes it
+}
+
+// Which changes a revert applies to: one change, every change in a turn or
+// session, or every change to a file. With beforeChangeId, every change to the file
+// from that one on, across all sessions, to bring it back to how it was before it.
+export type RevertScope =
+  | { changeId: string }
+  | { turnId: string; excludeSubagents?: boolean }
+  | { subagentId: string }
+  | { sessionId: string }
+  | { filePath: string; beforeChangeId?: string };
+
+export interface RevertFilePreview {
+  filePath: string;
+  diff: string;  // Unified diff from the current file to the reverted file
+  deletesFile: boolean;
+  conflict: boolean;
+}
+
+export interface RevertPreview {
+  scope: RevertScope;
+  changeIds: string[];  // In the order they would be reverted
+  results: RevertResult[];
+  files: RevertFilePreview[];
+  hasConflicts: boolean;
+  // Changes already staged or committed: reverting them only changes the working tree,
+  // leaving it behind the index/HEAD, so it needs the workingTreeOnly confirmation
+  committedChangeIds: string[];
+  warnings: string[];
+}
+
+export interface RevertOptions {
+  workingTreeOnly?: boolean;  // Confirms reverting staged or committed changes in the working tree
+}
+
+// Outcome of reverting several changes as one transaction: either every file
+// is written and every change marked as reverted, or nothing is
+export interface BatchRevertResult {
+  scope: RevertScope;
+  success: boolean;
+  changeIds: string[];  // In the order they were reverted
+  results: RevertResult[];
+  filesWritten: string[];
+  rolledBack: boolean;
+  error?: string;
+}
+
+// A completed revert, kept so it can be undone. before is each file as it was
+// right before the revert (null if it did not exist), after as the revert left it.
+export interface RevertOperation {
+  id: string;
+  timestamp: string;
+  projectPath: string;
+  scope: RevertScope;
+  changeIds: string[];
+  changes: Array<{
+    changeId: string;
+    sessionId?: string;
+    filePath: string;
+  }>;
+  files: Array<{
+    filePath: string;
+    before: string | null;
+    after: string | null;
+  }>;
+  state: 'reverted' | 'restored';
+}
+
+// One reverted change in reverted-changes.json. Content is recorded as sha256
+// hashes of the file before and after the revert; the full files are kept with
+// the revert operation. Who/when/file are missing on entries migrated from v1.
+export interface RevertRecord {
+  changeId: string;
+  filePath?: string;
+  revertedAt?: string;
+  revertedBy?: string;  // user@host
+  operationId?: string;
+  contentBefore: string | null;  // null if the file did not exist
+  contentAfter: string | null;  // null if the revert deleted the file
+}
+
+// RevertOperation without the file backups, for listing
+export interface RevertOperationSummary {
+  id: string;
+  timestamp: string;
+  scope: RevertScope;
+  changeIds: string[];
+  filePaths: string[];
+  state: 'reverted' | 'restored';
+}
+
+// Outcome of undoing (restore) or re-applying (redo) a revert operation
+export interface RestoreResult {
+  operationId: string;
+  action: 'restore' | 'redo';
+  success: boolean;
+  changeIds: string[];
+  filesWritten: string[];
+  conflicts: Array<{ filePath: string; conflicts: MergeConflict[] }>;
+  error?: string;
+}
+
+export type PatchFormat = 'patch' | 'mbox';
+
+// Changes exported as a patch. A plain patch holds the combined diff of every file;
+// an mbox holds one `git format-patch` style mail per conversation turn.
+export interface PatchExport {
+  scope: RevertScope;
+  format: PatchFormat;
+  content: string;
+  patchCount: number;  // Mails in an mbox, 1 for a plain patch
+  changeIds: string[];
+  skipped: Array<{ changeId: string; filePath: string; reason: string }>;
+}
+
+// A session replayed onto a git branch, one commit per conversation turn
+export interface CommitTurnsResult {
+  sessionId: string;
+  branch: string;
+  base: string;  // Commit the branch starts from
+  commits: Array<{ turnId: string; commit: string; subject: string; files: string[] }>;
+  skipped: PatchExport['skipped'];
+  warnings: string[];
+}
+
+// Where in a turn a search matched: its prompt, Claude's reply, a Bash command it ran,
+// or a change's file path or the text the change removed and added
+export type SearchField = 'prompt' | 'assistant' | 'command' | 'filePath' | 'diff';
+
+// Every term of the query must appear; filters narrow down which turns and changes count
+export interface SearchOptions {
+  query: string;
+  sessionId?: string;  // Any file of the conversation
+  file?: string;  // Part of a changed file's path
+  since?: number;  // Milliseconds since the epoch
+  until?: number;
+  type?: FileChange['type'];
+  limit?: number;
+}
+
+export interface SearchResult {
+  sessionId: string;  // The conversation, as listed (see SessionMetadata)
+  turnId: string;
+  changeId?: string;  // Set for matches in a change
+  field: SearchField;
+  timestamp: string;
+  userMessage: string;  // Prompt of the turn, truncated
+  filePath?: string;
+  changeType?: FileChange['type'];
+  snippet: string;  // Text around the first match
+  score: number;  // Occurrences of the query terms
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;  // Matches before the limit
+  results: SearchResult[];  // Best first
+}
+
+// A change to a file with the prompt of the turn that made it
+export interface FileHistoryEntry {
+  change: ParsedChange;
+  sessionId: string;  // The conversation, as listed in the sidebar
+  turnId?: string;
+  userMessage: string;  // Full prompt
+  subagentPrompt?: string;  // For changes made by a subagent
+}
+
+// Every change any session made to one file, including renames to and from it
+export interface FileHistoryResponse {
+  filePath: string;  // Absolute
+  entries: FileHistoryEntry[];  // Oldest first
+}
+
+// The file between two points of its history: before fromChangeId and after toChangeId.
+// before and after are null where the file did not exist.
+export interface FileHistoryDiff {
+  filePath: string;
+  fromChangeId: string;
+  toChangeId: string;
+  changeIds: string[];  // Applied changes in between, oldest first
+  before: string | null;
+  after: string | null;
+  diff: string;
+}
+
+// Which project to show and where Claude keeps its data; default to the current
+// directory and CLAUDE_CONFIG_DIR or ~/.claude
+export interface ProjectOptions {
+  projectPath?: string;
+  claudeDir?: string;
+}
+
+// A folder under <claude dir>/projects that may hold a project's session logs
+export interface ProjectCandidate {
+  dirName: string;
+  logDir: string;
+  cwds: string[];  // Working directories recorded in its most recent sessions, newest first
+  sessionCount: number;
+  lastActivity: number | null;  // Modification time of its newest session file
+}
+
+// A project folder as listed in the project picker
+export interface ProjectSummary extends ProjectCandidate {
+  projectPath: string | null;  // Where its latest session ran, null if none was recorded
+  exists: boolean;  // Whether projectPath is still a directory on disk
+}
+
+// Where a project's session logs were found. logDir is where they are expected when
+// nothing matched, so they can still be watched for; candidates then lists similar folders.
+export interface ProjectLocation {
+  projectPath: string;
+  claudeDir: string;
+  logDir: string;
+  found: boolean;
+  verified: boolean;  // The folder's sessions recorded this project as their cwd
+  candidates: ProjectCandidate[];
+}
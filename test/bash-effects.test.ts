@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeBashCommand } from '../src/bash-effects.js';
+
+const cwd = '/project';
+
+test('plain rm and mv of literal paths are file operations', () => {
+  const analysis = analyzeBashCommand('rm -f old.txt && mv a.txt b.txt', cwd);
+  assert.deepEqual(analysis.operations, [
+    { type: 'delete', filePath: '/project/old.txt' },
+    { type: 'rename', filePath: '/project/a.txt', newFilePath: '/project/b.txt' }
+  ]);
+  assert.deepEqual(analysis.effects, []);
+});
+
+test('quotes and escapes are part of the word', () => {
+  const analysis = analyzeBashCommand(`rm "my file.txt" 'it''s.txt' with\\ space.txt`, cwd);
+  assert.deepEqual(analysis.operations.map(operation => operation.filePath), [
+    '/project/my file.txt',
+    '/project/its.txt',
+    '/project/with space.txt'
+  ]);
+});
+
+test('separators inside quotes do not split the command', () => {
+  const analysis = analyzeBashCommand('echo "a; rm x && rm y" | grep a', cwd);
+  assert.deepEqual(analysis.operations, []);
+  assert.deepEqual(analysis.effects, []);
+});
+
+test('words that depend on the shell are only described', () => {
+  const analysis = analyzeBashCommand('rm $FILE *.log', cwd);
+  assert.deepEqual(analysis.operations, []);
+  assert.equal(analysis.effects.length, 1);
+  assert.match(analysis.effects[0], /^rm removes files/);
+});
+
+test('output redirects are effects, /dev/null is not', () => {
+  const analysis = analyzeBashCommand('echo hi > out.txt; echo more >> log.txt 2>/dev/null', cwd);
+  assert.deepEqual(analysis.effects, ['writes out.txt', 'appends to log.txt']);
+  assert.deepEqual(analysis.paths, ['/project/out.txt', '/project/log.txt']);
+});
+
+test('heredoc bodies are data, not commands', () => {
+  const command = "cat > notes.md <<'EOF'\nrm -rf src\nmv a b\nEOF\nrm done.txt";
+  const analysis = analyzeBashCommand(command, cwd);
+  assert.deepEqual(analysis.operations, [{ type: 'delete', filePath: '/project/done.txt' }]);
+  assert.deepEqual(analysis.effects, ['writes notes.md']);
+});
+
+test('cd changes where later paths resolve', () => {
+  const analysis = analyzeBashCommand('cd sub && rm a.txt', cwd);
+  assert.deepEqual(analysis.operations, [{ type: 'delete', filePath: '/project/sub/a.txt' }]);
+});
+
+test('mv into a directory only with a trailing slash', () => {
+  assert.deepEqual(analyzeBashCommand('mv a.txt docs/', cwd).operations, [
+    { type: 'rename', filePath: '/project/a.txt', newFilePath: '/project/docs/a.txt' }
+  ]);
+  assert.deepEqual(analyzeBashCommand('mv a.txt docs', cwd).operations, [
+    { type: 'rename', filePath: '/project/a.txt', newFilePath: '/project/docs' }
+  ]);
+  assert.deepEqual(analyzeBashCommand('mv sub/a.txt .', cwd).operations, [
+    { type: 'rename', filePath: '/project/sub/a.txt', newFilePath: '/project/a.txt' }
+  ]);
+});
+
+test('what follows || may not have run, so it is only described', () => {
+  const analysis = analyzeBashCommand('test -f a.txt || mv b.txt a.txt', cwd);
+  assert.deepEqual(analysis.operations, []);
+  assert.deepEqual(analysis.effects, ['mv moves files: b.txt a.txt']);
+  assert.deepEqual(analysis.paths, ['/project/b.txt', '/project/a.txt']);
+
+  assert.deepEqual(analyzeBashCommand('ls x.txt || echo missing && rm y.txt', cwd).operations, []);
+});
+
+test('what follows && ran if the command succeeded, unless more runs after its list', () => {
+  assert.deepEqual(analyzeBashCommand('false && rm x.txt', cwd).operations, [
+    { type: 'delete', filePath: '/project/x.txt' }
+  ]);
+  assert.deepEqual(analyzeBashCommand('make &&\n  rm x.txt', cwd).operations, [
+    { type: 'delete', filePath: '/project/x.txt' }
+  ]);
+
+  const analysis = analyzeBashCommand('make && rm x.txt; echo done', cwd);
+  assert.deepEqual(analysis.operations, []);
+  assert.deepEqual(analysis.effects, ['rm removes files: x.txt']);
+
+  // A cd that may not have run leaves later paths unknown
+  assert.deepEqual(analyzeBashCommand('test -d sub && cd sub\nrm a.txt', cwd).operations, []);
+  assert.deepEqual(analyzeBashCommand('rm a.txt && make; rm b.txt', cwd).operations, [
+    { type: 'delete', filePath: '/project/a.txt' },
+    { type: 'delete', filePath: '/project/b.txt' }
+  ]);
+});
@@ -0,0 +1,77 @@
+import { test, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeTracker } from '../src/change-tracker.js';
+import { FileChange } from '../src/types.js';
+
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-home-'));
+
+// A project whose files a session wrote over, with the tracker that reverts them
+async function writtenProject(files: Record<string, [before: string, after: string]>) {
+  const project = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-project-'));
+  const changes: FileChange[] = Object.entries(files).map(([name, [before, after]], index) => {
+    fs.writeFileSync(path.join(project, name), after);
+    return {
+      id: `toolu_${index}`,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, index)).toISOString(),
+      type: 'write',
+      filePath: path.join(project, name),
+      newContent: after,
+      originalContent: before,
+      sessionId: 'session',
+      turnId: 'turn',
+      status: 'applied'
+    };
+  });
+
+  const tracker = new ChangeTracker(project);
+  await tracker.init();
+  return { project, tracker, changes: await tracker.processChanges(changes) };
+}
+
+test('a batch revert writes every file and records one operation', async () => {
+  const { project, tracker, changes } = await writtenProject({ 'a.txt': ['a0\n', 'a1\n'], 'b.txt': ['b0\n', 'b1\n'] });
+
+  const result = await tracker.revertBatch({ turnId: 'turn' }, changes);
+  assert.equal(result.success, true);
+  assert.equal(fs.readFileSync(path.join(project, 'a.txt'), 'utf-8'), 'a0\n');
+  assert.equal(fs.readFileSync(path.join(project, 'b.txt'), 'utf-8'), 'b0\n');
+  assert.equal((await tracker.getRevertHistory()).length, 1);
+});
+
+test('when a later file fails to write, the files written before it are restored', async () => {
+  const { project, tracker, changes } = await writtenProject({ 'a.txt': ['a0\n', 'a1\n'], 'b.txt': ['b0\n', 'b1\n'] });
+  const writeFile = fs.promises.writeFile;
+  let failed = false;
+  const failing = mock.method(fs.promises, 'writeFile', (file: any, ...args: any[]) => {
+    if (file === path.join(project, 'b.txt') && !failed) {
+      failed = true;
+      return Promise.reject(Object.assign(new Error('disk full'), { code: 'ENOSPC' }));
+    }
+    return (writeFile as any)(file, ...args);
+  });
+
+  try {
+    const result = await tracker.revertBatch({ turnId: 'turn' }, changes);
+    assert.equal(result.success, false);
+    assert.equal(result.rolledBack, true);
+    assert.equal(result.error, 'disk full');
+  } finally {
+    failing.mock.restore();
+  }
+
+  assert.equal(fs.readFileSync(path.join(project, 'a.txt'), 'utf-8'), 'a1\n');
+  assert.equal(fs.readFileSync(path.join(project, 'b.txt'), 'utf-8'), 'b1\n');
+  assert.deepEqual(await tracker.getRevertHistory(), []);
+});
+
+test('an empty scope is rejected without recording an operation', async () => {
+  const { tracker } = await writtenProject({ 'a.txt': ['a0\n', 'a1\n'] });
+
+  const result = await tracker.revertBatch({ turnId: 'turn' }, []);
+  assert.equal(result.success, false);
+  assert.match(result.error || '', /Nothing to revert/);
+  assert.deepEqual(await tracker.getRevertHistory(), []);
+});
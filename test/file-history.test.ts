@@ -0,0 +1,151 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RevertServer } from '../src/server.js';
+import { encodeProjectPath } from '../src/project-locator.js';
+
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-home-'));
+
+const project = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-project-'));
+const claudeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-claude-'));
+const logDir = path.join(claudeDir, 'projects', encodeProjectPath(project)[0]);
+
+// A session log: each step is a prompt, or a tool call answered by its tool_result
+function writeSession(sessionId: string, start: string, steps: Array<
+  { prompt: string } | { id: string; name: string; input: object; payload?: object }
+>) {
+  const entries: object[] = [];
+  let parentUuid: string | null = null;
+  const append = (entry: object) => {
+    const uuid = `${sessionId}-${entries.length}`;
+    const timestamp = new Date(new Date(start).getTime() + entries.length * 1000).toISOString();
+    entries.push({ ...entry, uuid, parentUuid, timestamp, sessionId, cwd: project });
+    parentUuid = uuid;
+  };
+
+  for (const step of steps) {
+    if ('prompt' in step) {
+      append({ type: 'user', message: { role: 'user', content: step.prompt } });
+      continue;
+    }
+    append({
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_use', id: step.id, name: step.name, input: step.input }] }
+    });
+    append({
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: step.id, content: 'ok' }] },
+      toolUseResult: step.payload
+    });
+  }
+
+  fs.writeFileSync(path.join(logDir, `${sessionId}.jsonl`), entries.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+}
+
+const file = (name: string) => path.join(project, name);
+let server: RevertServer;
+let baseUrl: string;
+
+// b.txt is written and renamed to c.txt in one session, and c.txt edited in a later one
+before(async () => {
+  fs.mkdirSync(logDir, { recursive: true });
+  writeSession('first', '2024-01-01T00:00:00.000Z', [
+    { prompt: 'Create b.txt' },
+    { id: 'write-b', name: 'Write', input: { file_path: file('b.txt'), content: 'one\n' }, payload: { type: 'create' } },
+    { id: 'write-other', name: 'Write', input: { file_path: file('other.txt'), content: 'other\n' }, payload: { type: 'create' } },
+    { prompt: 'Call it c.txt' },
+    { id: 'move-b', name: 'Bash', input: { command: 'mv b.txt c.txt' } }
+  ]);
+  writeSession('second', '2024-01-02T00:00:00.000Z', [
+    { prompt: 'Say two' },
+    {
+      id: 'edit-c',
+      name: 'Edit',
+      input: { file_path: file('c.txt'), old_string: 'one', new_string: 'two' },
+      payload: { originalFile: 'one\n' }
+    }
+  ]);
+  fs.writeFileSync(file('c.txt'), 'two\n');
+  fs.writeFileSync(file('other.txt'), 'other\n');
+
+  server = new RevertServer(0, { projectPath: project, claudeDir });
+  await server.start();
+  baseUrl = `http://localhost:${((server as any).server.address()).port}`;
+});
+
+after(() => server.stop());
+
+async function get(url: string): Promise<{ status: number; body: any }> {
+  const response = await fetch(baseUrl + url);
+  return { status: response.status, body: await response.json() };
+}
+
+test('the history of a file follows it across renames and sessions', async () => {
+  const { status, body } = await get(`/api/file-history?path=${encodeURIComponent(file('c.txt'))}`);
+  assert.equal(status, 200);
+  assert.equal(body.filePath, file('c.txt'));
+  assert.deepEqual(body.entries.map((entry: any) => [entry.change.id, entry.sessionId]), [
+    ['write-b', 'first'],
+    ['move-b', 'first'],
+    ['edit-c', 'second']
+  ]);
+
+  // A relative path is relative to the project
+  assert.equal((await get('/api/file-history?path=c.txt')).body.entries.length, 3);
+  // Before the rename, b.txt only has its own changes
+  const old = await get(`/api/file-history?path=${encodeURIComponent(file('b.txt'))}`);
+  assert.deepEqual(old.body.entries.map((entry: any) => entry.change.id), ['write-b', 'move-b']);
+});
+
+test('the range diff shows the file before one change and after another', async () => {
+  const url = (from?: string, to?: string) => '/api/file-history/diff?' +
+    new URLSearchParams({ path: file('c.txt'), ...(from ? { from } : {}), ...(to ? { to } : {}) });
+
+  const whole = await get(url());
+  assert.equal(whole.status, 200);
+  assert.deepEqual(whole.body.changeIds, ['write-b', 'move-b', 'edit-c']);
+  assert.equal(whole.body.before, null);
+  assert.equal(whole.body.after, 'two\n');
+
+  // A rename carries no content: the file is what the change before it left
+  const sinceMove = await get(url('move-b', 'edit-c'));
+  assert.equal(sinceMove.body.before, 'one\n');
+  assert.equal(sinceMove.body.after, 'two\n');
+  assert.match(sinceMove.body.diff, /^-one$/m);
+  assert.match(sinceMove.body.diff, /^\+two$/m);
+
+  const untilMove = await get(url('write-b', 'move-b'));
+  assert.equal(untilMove.body.before, null);
+  assert.equal(untilMove.body.after, 'one\n');
+
+  const backwards = await get(url('edit-c', 'write-b'));
+  assert.equal(backwards.status, 500);
+  assert.match(backwards.body.error, /comes after/);
+});
+
+test('reverting to before a change undoes it and everything after it, across sessions', async () => {
+  const response = await fetch(`${baseUrl}/api/revert/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filePath: file('c.txt'), beforeChangeId: 'move-b' })
+  });
+  const result = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.deepEqual([...result.changeIds].sort(), ['edit-c', 'move-b']);
+  assert.equal(fs.existsSync(file('c.txt')), false);
+  assert.equal(fs.readFileSync(file('b.txt'), 'utf-8'), 'one\n');
+  // Other files of those sessions are left alone
+  assert.equal(fs.readFileSync(file('other.txt'), 'utf-8'), 'other\n');
+
+  // Nothing is left to revert
+  const again = await fetch(`${baseUrl}/api/revert/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ filePath: file('c.txt'), beforeChangeId: 'move-b' })
+  });
+  assert.notEqual(again.status, 200);
+  assert.equal(fs.readFileSync(file('b.txt'), 'utf-8'), 'one\n');
+});
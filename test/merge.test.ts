@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { splitLines, threeWayMerge } from '../src/merge.js';
+
+test('splitLines keeps line endings and a last line without one', () => {
+  assert.deepEqual(splitLines('a\nb\r\nc'), ['a\n', 'b\r\n', 'c']);
+  assert.deepEqual(splitLines(''), []);
+  assert.equal(splitLines('x\n\ny\n').join(''), 'x\n\ny\n');
+});
+
+test('changes on one side only are taken as they are', () => {
+  const base = 'one\ntwo\nthree\nfour\n';
+  const ours = 'one\ntwo\nthree\nFOUR\n';
+  const theirs = 'ONE\ntwo\nthree\nfour\n';
+
+  const result = threeWayMerge(base, ours, theirs);
+  assert.deepEqual(result.conflicts, []);
+  assert.equal(result.content, 'ONE\ntwo\nthree\nFOUR\n');
+});
+
+test('the same change on both sides is taken once', () => {
+  const result = threeWayMerge('a\nb\nc\n', 'a\nB\nc\n', 'a\nB\nc\n');
+  assert.deepEqual(result.conflicts, []);
+  assert.equal(result.content, 'a\nB\nc\n');
+});
+
+test('insertions and deletions merge cleanly', () => {
+  const base = 'a\nb\nc\nd\n';
+  const ours = 'a\nb\nc\nd\ne\n';
+  const theirs = 'a\nc\nd\n';
+
+  const result = threeWayMerge(base, ours, theirs);
+  assert.deepEqual(result.conflicts, []);
+  assert.equal(result.content, 'a\nc\nd\ne\n');
+});
+
+test('different changes to the same lines conflict and keep ours', () => {
+  const base = 'keep\nvalue = 1\nend\n';
+  const ours = 'keep\nvalue = 2\nend\n';
+  const theirs = 'keep\nvalue = 3\nend\n';
+
+  const result = threeWayMerge(base, ours, theirs);
+  assert.equal(result.content, ours);
+  assert.deepEqual(result.conflicts, [{
+    oursStart: 2,
+    base: ['value = 1\n'],
+    ours: ['value = 2\n'],
+    theirs: ['value = 3\n']
+  }]);
+});
+
+test('conflicts report their line in the merged file', () => {
+  const base = 'a\nb\nc\n';
+  const ours = 'new\na\nb\nB\n';
+  const theirs = 'a\nb\nC\n';
+
+  const result = threeWayMerge(base, ours, theirs);
+  assert.equal(result.conflicts.length, 1);
+  assert.equal(result.conflicts[0].oursStart, 4);
+  assert.equal(result.content, ours);
+});
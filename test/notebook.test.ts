@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applyNotebookEdit, containsNotebookEdit, revertNotebookEdit } from '../src/notebook.js';
+import { NotebookCellEdit } from '../src/types.js';
+
+function notebook(cells: Array<{ id: string; source: string; cell_type?: string }>): string {
+  return JSON.stringify({
+    cells: cells.map(({ id, source, cell_type = 'code' }) => ({
+      cell_type,
+      id,
+      metadata: {},
+      source: source.split(/(?<=\n)/),
+      ...(cell_type === 'code' ? { execution_count: null, outputs: [] } : {})
+    })),
+    metadata: {},
+    nbformat: 4,
+    nbformat_minor: 5
+  }, null, 1) + '\n';
+}
+
+function cells(content: string): Array<{ id?: string; source: string }> {
+  return JSON.parse(content).cells.map((cell: any) => ({ id: cell.id, source: [].concat(cell.source).join('') }));
+}
+
+const before = notebook([
+  { id: 'title', source: '# Title', cell_type: 'markdown' },
+  { id: 'load', source: 'x = 1\nprint(x)' },
+  { id: 'plot', source: 'plot(x)' }
+]);
+
+function roundTrip(edit: NotebookCellEdit): string {
+  const after = applyNotebookEdit(before, edit);
+  assert.ok(after, 'edit applies');
+  assert.ok(containsNotebookEdit(after, edit));
+
+  const reverted = revertNotebookEdit(after, edit, before);
+  assert.ok('content' in reverted, 'conflict' in reverted ? reverted.conflict : '');
+  return reverted.content;
+}
+
+test('replace round-trips', () => {
+  const edit: NotebookCellEdit = { cellId: 'load', editMode: 'replace', newSource: 'x = 10\nprint(x * 2)' };
+  const after = applyNotebookEdit(before, edit)!;
+  assert.deepEqual(cells(after)[1], { id: 'load', source: 'x = 10\nprint(x * 2)' });
+  assert.equal(roundTrip(edit), before);
+});
+
+test('insert round-trips and gives the cell its recorded id', () => {
+  const edit: NotebookCellEdit = { cellId: 'load', editMode: 'insert', cellType: 'markdown', newSource: '## Results', newCellId: 'results' };
+  const after = applyNotebookEdit(before, edit)!;
+  assert.deepEqual(cells(after).map(cell => cell.id), ['title', 'load', 'results', 'plot']);
+  assert.equal(roundTrip(edit), before);
+});
+
+test('insert without a cell id goes first', () => {
+  const edit: NotebookCellEdit = { editMode: 'insert', newSource: 'import os' };
+  const after = applyNotebookEdit(before, edit)!;
+  assert.equal(cells(after)[0].source, 'import os');
+  assert.equal(roundTrip(edit), before);
+});
+
+test('delete round-trips', () => {
+  const edit: NotebookCellEdit = { cellId: 'load', editMode: 'delete', newSource: '' };
+  const after = applyNotebookEdit(before, edit)!;
+  assert.deepEqual(cells(after).map(cell => cell.id), ['title', 'plot']);
+  assert.equal(roundTrip(edit), before);
+});
+
+test('a reverted edit leaves later changes to other cells alone', () => {
+  const edit: NotebookCellEdit = { cellId: 'load', editMode: 'replace', newSource: 'x = 2' };
+  const after = applyNotebookEdit(before, edit)!;
+  const later = applyNotebookEdit(after, { cellId: 'plot', editMode: 'replace', newSource: 'plot(x, y)' })!;
+
+  const reverted = revertNotebookEdit(later, edit, before);
+  assert.ok('content' in reverted);
+  assert.deepEqual(cells(reverted.content).map(cell => cell.source), ['# Title', 'x = 1\nprint(x)', 'plot(x, y)']);
+});
+
+test('a cell modified since the edit is a conflict', () => {
+  const edit: NotebookCellEdit = { cellId: 'load', editMode: 'replace', newSource: 'x = 2' };
+  const after = applyNotebookEdit(before, edit)!;
+  const modified = applyNotebookEdit(after, { cellId: 'load', editMode: 'replace', newSource: 'x = 3' })!;
+
+  assert.deepEqual(revertNotebookEdit(modified, edit, before), { conflict: 'The cell has been modified since this change' });
+});
+
+test('an unknown cell cannot be edited', () => {
+  assert.equal(applyNotebookEdit(before, { cellId: 'missing', editMode: 'replace', newSource: '' }), null);
+  assert.equal(applyNotebookEdit('not json', { editMode: 'insert', newSource: '' }), null);
+});
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeLogParser } from '../src/parser.js';
+import { encodeProjectPath } from '../src/project-locator.js';
+
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-home-'));
+
+// An Edit of app.ts and the user entry answering it with the given tool_result
+function editEntries(id: string, result: { text: string; isError?: boolean }) {
+  return [
+    {
+      type: 'assistant',
+      uuid: `a-${id}`,
+      parentUuid: null,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      message: {
+        role: 'assistant',
+        content: [{
+          type: 'tool_use',
+          id,
+          name: 'Edit',
+          input: { file_path: '/project/app.ts', old_string: 'a', new_string: 'b' }
+        }]
+      }
+    },
+    {
+      type: 'user',
+      uuid: `u-${id}`,
+      parentUuid: `a-${id}`,
+      timestamp: '2024-01-01T00:00:01.000Z',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: id, content: result.text, is_error: result.isError }]
+      }
+    }
+  ];
+}
+
+function jsonl(entries: object[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+}
+
+// Session log with one Edit answered by the given tool_result
+async function parseEdit(result: { text: string; isError?: boolean }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-parser-'));
+  const logFile = path.join(dir, 'session.jsonl');
+  fs.writeFileSync(logFile, jsonl(editEntries('toolu_1', result)));
+
+  try {
+    const changes = await new ClaudeLogParser({ projectPath: dir }).parseLogFile(logFile);
+    assert.equal(changes.length, 1);
+    return changes[0];
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('a successful edit quoting permission errors from the file is applied', async () => {
+  const change = await parseEdit({
+    text: 'The file /project/app.ts has been updated. Here\'s the result of running `cat -n` on a snippet of the edited file:\n' +
+      '    12\t  throw new Error("Permission denied");\n' +
+      '    13\t  // the user requested permission to write here'
+  });
+  assert.equal(change.status, 'applied');
+});
+
+test('rejections are recognized with or without is_error', async () => {
+  const rejected = await parseEdit({
+    text: 'The user doesn\'t want to proceed with this tool use. The tool use was rejected (eg. if it was a file edit, the new_string was NOT written to the file). STOP what you are doing and wait for the user to tell you how to proceed.'
+  });
+  assert.equal(rejected.status, 'rejected');
+
+  const denied = await parseEdit({
+    text: '<tool_use_error>Claude requested permissions to write to /project/app.ts, but you haven\'t granted it yet.</tool_use_error>',
+    isError: true
+  });
+  assert.equal(denied.status, 'rejected');
+});
+
+test('other errors are failures', async () => {
+  const change = await parseEdit({
+    text: '<tool_use_error>String to replace not found in file.</tool_use_error>',
+    isError: true
+  });
+  assert.equal(change.status, 'failed');
+  assert.equal(change.statusMessage, 'String to replace not found in file.');
+});
+
+test('concurrent index refreshes parse appended entries once', async () => {
+  const project = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-project-'));
+  const claudeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-claude-'));
+  const logDir = path.join(claudeDir, 'projects', encodeProjectPath(project)[0]);
+  const logFile = path.join(logDir, 'session.jsonl');
+  fs.mkdirSync(logDir, { recursive: true });
+  fs.writeFileSync(logFile, jsonl(editEntries('toolu_1', { text: 'ok' })));
+
+  const parser = new ClaudeLogParser({ projectPath: project, claudeDir });
+  assert.equal((await parser.getAllSessionMetadata())[0].fileCount, 1);
+
+  fs.appendFileSync(logFile, jsonl(editEntries('toolu_2', { text: 'ok' })));
+  const results = await Promise.all([1, 2, 3].map(() => parser.getAllSessionMetadata()));
+  assert.deepEqual(results.map(sessions => sessions[0].fileCount), [2, 2, 2]);
+
+  const fresh = new ClaudeLogParser({ projectPath: project, claudeDir });
+  assert.equal((await fresh.getAllSessionMetadata())[0].fileCount, 2);
+});
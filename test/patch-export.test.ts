@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PatchExporter } from '../src/patch-export.js';
+import { ConversationTurn, SessionWithTurns } from '../src/types.js';
+
+const project = '/project';
+
+function session(turn: Partial<ConversationTurn>): SessionWithTurns {
+  return {
+    sessionId: 'session',
+    sessionFile: '/logs/session.jsonl',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    mtime: 0,
+    isLatest: true,
+    sessionIds: ['session'],
+    turns: [{
+      id: 'turn-1',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      userMessage: '',
+      fileChanges: [],
+      isLatestSession: true,
+      parsedChanges: [{
+        id: 'toolu_1',
+        timestamp: '2024-01-01T00:00:01.000Z',
+        type: 'write',
+        filePath: `${project}/app.txt`,
+        oldContent: 'one\n',
+        newContent: 'two\n',
+        oldContentSource: 'tool-result',
+        canRevert: true,
+        status: 'applied'
+      }],
+      ...turn
+    }],
+    abandonedBranches: [],
+    boundaries: []
+  };
+}
+
+// What `git mailinfo` (the part of `git am` that splits a mail) makes of a mail
+function mailinfo(mail: string): { info: string; message: string; patch: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-mail-'));
+  try {
+    const info = execFileSync('git', ['mailinfo', '-u', path.join(dir, 'msg'), path.join(dir, 'patch')], { input: mail, encoding: 'utf-8' });
+    return {
+      info,
+      message: fs.readFileSync(path.join(dir, 'msg'), 'utf-8'),
+      patch: fs.readFileSync(path.join(dir, 'patch'), 'utf-8')
+    };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('reply lines that look like a patch stay in the commit message', () => {
+  const reply = [
+    'Here is what changed:',
+    '---',
+    '--- a/app.txt',
+    'diff --git a/app.txt b/app.txt',
+    'diff -u old new',
+    'Index: app.txt',
+    'From me to you'
+  ].join('\n');
+  const mail = new PatchExporter(project).export(session({ userMessage: 'Update app', assistantMessage: reply }), { sessionId: 'session' }, 'mbox');
+
+  const { info, message, patch } = mailinfo(mail.content);
+  assert.match(info, /^Subject: Update app$/m);
+  for (const line of reply.split('\n').slice(1)) {
+    assert.ok(message.includes(line), `"${line}" is missing from the message:\n${message}`);
+  }
+  assert.match(message, /Claude-Turn: turn-1/);
+  assert.ok(patch.startsWith('---\ndiff --git a/app.txt b/app.txt\n'));
+  assert.match(patch, /^-one$/m);
+  assert.match(patch, /^\+two$/m);
+});
+
+test('non-ASCII subjects are encoded and decoded whole', () => {
+  const prompt = 'Übersetze die Überschriften ins Deutsche — und prüfe die Umlaute: äöü ß 日本語のテキストも';
+  const mail = new PatchExporter(project).export(session({ userMessage: prompt }), { sessionId: 'session' }, 'mbox');
+
+  assert.match(mail.content, /^Content-Type: text\/plain; charset=UTF-8$/m);
+  assert.ok(mail.content.split('\n').every(line => line.length <= 998));
+  const subject = mail.content.split('\n').find(line => line.startsWith('Subject: '))!;
+  assert.match(subject, /^Subject: \[PATCH\] =\?UTF-8\?B\?/);
+
+  const { info } = mailinfo(mail.content);
+  const expected = prompt.length > 72 ? prompt.substring(0, 69) + '...' : prompt;
+  assert.equal(info.match(/^Subject: (.*)$/m)?.[1], expected);
+});
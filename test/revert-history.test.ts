@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RevertHistory } from '../src/revert-history.js';
+import { ChangeTracker } from '../src/change-tracker.js';
+
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-home-'));
+process.env.HOME = home;
+
+test('operations of another project are not found by id or replayed', async () => {
+  const project = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-project-'));
+  const other = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-other-'));
+  const victim = path.join(other, 'file.txt');
+  fs.writeFileSync(victim, 'after\n');
+
+  const operation = await new RevertHistory(other).record(
+    { changeIds: ['c1'] },
+    [],
+    [{ filePath: victim, before: 'before\n', after: 'after\n' }]
+  );
+
+  assert.equal(await new RevertHistory(project).get(operation.id), null);
+  assert.equal((await new RevertHistory(other).get(operation.id))?.id, operation.id);
+
+  const tracker = new ChangeTracker(project);
+  await tracker.init();
+  const result = await tracker.restoreRevert(operation.id);
+  assert.equal(result.success, false);
+  assert.equal(fs.readFileSync(victim, 'utf-8'), 'after\n');
+});
+
+test('a replayed operation never writes outside the project', async () => {
+  const project = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-project-'));
+  const outside = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-outside-')), 'file.txt');
+  fs.writeFileSync(outside, 'after\n');
+
+  const operation = await new RevertHistory(project).record(
+    { changeIds: ['c1'] },
+    [],
+    [{ filePath: outside, before: 'before\n', after: 'after\n' }]
+  );
+
+  const tracker = new ChangeTracker(project);
+  await tracker.init();
+  const result = await tracker.restoreRevert(operation.id);
+  assert.equal(result.success, false);
+  assert.match(result.error || '', /outside the project/);
+  assert.equal(fs.readFileSync(outside, 'utf-8'), 'after\n');
+});
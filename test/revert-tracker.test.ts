@@ -0,0 +1,85 @@
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RevertTracker } from '../src/revert-tracker.js';
+
+let revertFile: string;
+
+// Every test gets a home of its own, so its reverted-changes.json starts out missing
+beforeEach(() => {
+  process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'crevr-home-'));
+  revertFile = path.join(os.homedir(), '.crevr', 'reverted-changes.json');
+  fs.mkdirSync(path.dirname(revertFile), { recursive: true });
+});
+
+function readStore(): any {
+  return JSON.parse(fs.readFileSync(revertFile, 'utf-8'));
+}
+
+test('a v1 file is migrated once, keeping the session of turn-based ids', async () => {
+  fs.writeFileSync(revertFile, JSON.stringify({ default: ['abc-turn-2-edit-0', 'toolu_1'] }));
+
+  await new RevertTracker('/projects/a').init();
+
+  const store = readStore();
+  assert.equal(store.version, 2);
+  assert.deepEqual(Object.keys(store.projects), ['(legacy)']);
+  assert.deepEqual(Object.keys(store.projects['(legacy)'].sessions.abc), ['abc-turn-2-edit-0']);
+  assert.deepEqual(Object.keys(store.projects['(legacy)'].sessions.default), ['toolu_1']);
+});
+
+test('legacy records belong to the first project that claims them', async () => {
+  fs.writeFileSync(revertFile, JSON.stringify({ default: ['toolu_1', 'toolu_2'] }));
+  const first = new RevertTracker('/projects/a');
+  const second = new RevertTracker('/projects/b');
+  await first.init();
+  await second.init();
+  const change = { id: 'toolu_1', sessionId: 'session' };
+
+  // Unclaimed records count for no project
+  assert.deepEqual(await first.filterRevertedChanges([change]), [change]);
+
+  await first.claimLegacyRecords([change]);
+  await second.claimLegacyRecords([change]);
+  assert.deepEqual(await first.filterRevertedChanges([change]), []);
+  assert.deepEqual(await second.filterRevertedChanges([change]), [change]);
+  assert.deepEqual(await first.getRevertedIds(), ['toolu_1']);
+
+  // The last claimed record removes the legacy project
+  assert.ok(readStore().projects['(legacy)']);
+  await second.claimLegacyRecords([{ id: 'toolu_2' }]);
+  assert.equal(readStore().projects['(legacy)'], undefined);
+  assert.deepEqual(await second.getRevertedIds(), ['toolu_2']);
+});
+
+test('a lock left by a process that is gone is taken over', async () => {
+  const tracker = new RevertTracker('/projects/a');
+  await tracker.init();
+
+  const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+  fs.writeFileSync(`${revertFile}.lock`, `${deadPid}:token`);
+
+  await tracker.markAsReverted('toolu_1', 'session');
+  assert.deepEqual(await tracker.getRevertedIds('session'), ['toolu_1']);
+  assert.equal(fs.existsSync(`${revertFile}.lock`), false);
+});
+
+test('a lock held by a running process is waited for, however old', async () => {
+  const tracker = new RevertTracker('/projects/a');
+  await tracker.init();
+
+  const lockFile = `${revertFile}.lock`;
+  fs.writeFileSync(lockFile, `${process.pid}:other`);
+  const old = new Date(Date.now() - 60 * 60 * 1000);
+  fs.utimesSync(lockFile, old, old);
+  const released = new Promise(resolve => setTimeout(resolve, 300)).then(() => fs.rmSync(lockFile));
+
+  const start = Date.now();
+  await tracker.markAsReverted('toolu_1', 'session');
+  await released;
+  assert.ok(Date.now() - start >= 250);
+  assert.deepEqual(await tracker.getRevertedIds('session'), ['toolu_1']);
+});
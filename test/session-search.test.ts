@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SessionSearch } from '../src/session-search.js';
+import type { ClaudeLogParser } from '../src/parser.js';
+import { ConversationTurn, FileChange, SessionMetadata, SessionWithTurns } from '../src/types.js';
+
+function turn(id: string, timestamp: string, userMessage: string, assistantMessage: string, fileChanges: Partial<FileChange>[] = []): ConversationTurn {
+  return {
+    id,
+    timestamp,
+    userMessage,
+    assistantMessage,
+    isLatestSession: false,
+    fileChanges: fileChanges.map((change, index) => ({
+      id: `${id}-change-${index}`,
+      timestamp,
+      type: 'edit',
+      filePath: '/project/app.ts',
+      status: 'applied',
+      ...change
+    }))
+  };
+}
+
+// A parser serving fixed sessions, counting the sessions it parses
+function fakeParser(sessions: SessionWithTurns[]) {
+  const parsed: string[] = [];
+  const mtimes = new Map(sessions.map(session => [session.sessionId, 1]));
+  const parser = {
+    async getAllSessionMetadata(): Promise<SessionMetadata[]> {
+      return sessions.map(session => ({
+        sessionId: session.sessionId,
+        sessionFile: session.sessionFile,
+        timestamp: session.timestamp,
+        mtime: mtimes.get(session.sessionId)!,
+        userMessage: session.turns[0]?.userMessage || 'No message',
+        fileCount: 0,
+        isLatest: false,
+        sessionIds: session.sessionIds
+      }));
+    },
+    async getSessionsWithTurns(sessionIds: string[]): Promise<SessionWithTurns[]> {
+      parsed.push(...sessionIds);
+      return sessions.filter(session => sessionIds.includes(session.sessionId));
+    }
+  };
+  return { parser: parser as unknown as ClaudeLogParser, parsed, mtimes };
+}
+
+function session(sessionId: string, turns: ConversationTurn[]): SessionWithTurns {
+  return {
+    sessionId,
+    sessionFile: `/logs/${sessionId}.jsonl`,
+    timestamp: turns[0].timestamp,
+    mtime: 1,
+    isLatest: false,
+    sessionIds: [sessionId],
+    turns,
+    abandonedBranches: [],
+    boundaries: []
+  };
+}
+
+const sessions = [
+  session('first', [
+    turn('first-turn-1', '2024-01-01T10:00:00.000Z', 'Add a login form', 'I added the Login form to app.ts', [
+      { type: 'create', filePath: '/project/login.ts', newContent: 'export function login() {}\n' }
+    ]),
+    turn('first-turn-2', '2024-01-02T10:00:00.000Z', 'Fix the tests', 'The login tests pass now', [
+      { filePath: '/project/login.test.ts', changes: [{ oldString: 'expect(false)', newString: 'expect(true)' }] }
+    ])
+  ]),
+  session('second', [
+    turn('second-turn-1', '2024-02-01T10:00:00.000Z', 'Rename the config', 'Moved config.json', [
+      { type: 'rename', filePath: '/project/config.json', newFilePath: '/project/settings.json' }
+    ])
+  ])
+];
+
+test('every term must match, in any case, and more occurrences rank first', async () => {
+  const search = new SessionSearch(fakeParser(sessions).parser);
+
+  const response = await search.search({ query: 'LOGIN' });
+  assert.deepEqual(response.results.map(result => [result.turnId, result.changeId, result.field]), [
+    ['first-turn-1', undefined, 'prompt'],
+    ['first-turn-1', 'first-turn-1-change-0', 'filePath'],
+    ['first-turn-2', undefined, 'assistant'],
+    ['first-turn-2', 'first-turn-2-change-0', 'filePath']
+  ]);
+  assert.equal(response.results[0].score, 2);
+
+  assert.equal((await search.search({ query: 'login config' })).total, 0);
+  assert.deepEqual((await search.search({ query: '"login form"' })).results.map(result => result.turnId), ['first-turn-1']);
+  assert.deepEqual((await search.search({ query: 'expect(true)' })).results.map(result => result.field), ['diff']);
+});
+
+test('results are narrowed by session, file, change type and date', async () => {
+  const search = new SessionSearch(fakeParser(sessions).parser);
+  const turnIds = async (options: object) =>
+    (await search.search({ query: 'the', ...options })).results.map(result => result.changeId || result.turnId).sort();
+
+  assert.deepEqual(await turnIds({ sessionId: 'second' }), ['second-turn-1']);
+  assert.deepEqual(await turnIds({ file: 'settings.json' }), ['second-turn-1']);
+  assert.deepEqual(await turnIds({ type: 'edit' }), ['first-turn-2']);
+  assert.deepEqual(await turnIds({
+    since: new Date('2024-01-02T00:00:00.000Z').getTime(),
+    until: new Date('2024-01-31T00:00:00.000Z').getTime()
+  }), ['first-turn-2']);
+});
+
+test('snippets are cut around the match in the original text', async () => {
+  const reply = `${'İ'.repeat(80)} the needle is here ${'x'.repeat(80)}`;
+  const search = new SessionSearch(fakeParser([
+    session('unicode', [turn('unicode-turn-1', '2024-01-01T00:00:00.000Z', 'Find it', reply)])
+  ]).parser);
+
+  const [result] = (await search.search({ query: 'NEEDLE' })).results;
+  assert.equal(result.snippet, `…${'İ'.repeat(55)} the needle is here ${'x'.repeat(51)}…`);
+});
+
+test('sessions are parsed again only when they have new activity', async () => {
+  const { parser, parsed, mtimes } = fakeParser(sessions);
+  const search = new SessionSearch(parser);
+
+  await search.search({ query: 'login' });
+  await search.search({ query: 'config' });
+  assert.deepEqual(parsed, ['first', 'second']);
+
+  mtimes.set('second', 2);
+  await search.search({ query: 'config' });
+  assert.deepEqual(parsed, ['first', 'second', 'second']);
+});